@@ -0,0 +1,117 @@
+import SpatialHashGrid from '../src/SpatialHashGrid';
+import { Client, Dimensions, StorageType, Vector2 } from '../src/types';
+
+/**
+ * Makes the protected API of the grid available to the benchmark.
+ */
+class BenchmarkGrid extends SpatialHashGrid<number> {
+    public newClient(position: Vector2, dimensions: Dimensions, data: number): Client<number> {
+        return super.newClient(position, dimensions, data);
+    }
+
+    public findNear(position: Vector2, bounds: Vector2): Client<number>[] {
+        return super.findNear(position, bounds);
+    }
+}
+
+const SIZE = 1000;
+const CLIENTS = 50000;
+const FRAMES = 20;
+const QUERIES = 10000;
+
+/**
+ * Measure the duration of a function.
+ * @param fn
+ * @returns Milliseconds.
+ */
+const measure = (fn: () => void): number => {
+    const start = performance.now();
+    fn();
+    return performance.now() - start;
+};
+
+/**
+ * Insert, move and query the same clients with a storage backend.
+ * @param storage
+ * @returns Milliseconds per step.
+ */
+const run = (storage: StorageType): Record<string, number> => {
+    const grid = new BenchmarkGrid(
+        [
+            [0, 0],
+            [SIZE, SIZE],
+        ],
+        [100, 100],
+        { storage },
+    );
+    const clients: Client<number>[] = [];
+    let found = 0;
+
+    const insert = measure(() => {
+        for (let i = 0; i < CLIENTS; i++) {
+            const size = 1 + Math.random() * 15;
+            clients.push(
+                grid.newClient([Math.random() * SIZE, Math.random() * SIZE], [size, size], i),
+            );
+        }
+    });
+
+    const update = measure(() => {
+        for (let frame = 0; frame < FRAMES; frame++) {
+            for (const client of clients) {
+                client.position[0] = (client.position[0] + 7) % SIZE;
+                client.position[1] = (client.position[1] + 3) % SIZE;
+                grid.updateClient(client);
+            }
+        }
+    });
+
+    const query = measure(() => {
+        for (let i = 0; i < QUERIES; i++) {
+            found += grid.findNear([Math.random() * SIZE, Math.random() * SIZE], [30, 30]).length;
+        }
+    });
+
+    const pairs = measure(() => {
+        found += grid.getCollisionPairs().length;
+    });
+
+    return { insert, update: update / FRAMES, query, pairs, found };
+};
+
+/**
+ * Compare the `linked` and `typed` storage backends.
+ */
+const benchmark = (): void => {
+    const storages: StorageType[] = ['linked', 'typed'];
+    // Warm up the JIT.
+    storages.forEach(run);
+
+    const lines = [
+        `${CLIENTS} clients, ${FRAMES} frames, ${QUERIES} queries`,
+        '',
+        'storage  insert   update/frame  query    pairs',
+    ];
+    for (const storage of storages) {
+        const { insert, update, query, pairs } = run(storage);
+        lines.push(
+            [storage, insert, update, query, pairs]
+                .map((value, i) =>
+                    (typeof value === 'number' ? `${value.toFixed(1)}ms` : value).padEnd(
+                        i === 2 ? 14 : 9,
+                    ),
+                )
+                .join('')
+                .trimEnd(),
+        );
+    }
+
+    const output = lines.join('\n');
+    if (typeof document === 'undefined') {
+        console.log(output);
+    } else {
+        document.querySelector('#app')!.textContent = output;
+    }
+};
+
+benchmark();
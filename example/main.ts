@@ -3,6 +3,7 @@ import * as THREE from 'three';
 import Stats from 'three/addons/libs/stats.module.js';
 import { GUI } from 'three/addons/libs/lil-gui.module.min.js';
 import ThreeSpatialHashGrid from '../src/ThreeSpatialHashGrid';
+import { GridHelper } from '../src/GridHelper';
 import { Bounds } from '../src/types';
 
 import CameraControls from 'camera-controls';
@@ -12,12 +13,14 @@ CameraControls.install({ THREE: THREE });
 const cubeMaterial = new THREE.MeshPhongMaterial({ color: 0xffffff, flatShading: true });
 const checkMaterial = new THREE.MeshPhongMaterial({ color: 0xff0000, flatShading: true });
 
+type Cube = THREE.Mesh<THREE.BufferGeometry, THREE.Material>;
+
 /**
  * Example of how to use the `ThreeSpatialHashGrid` class.
  */
 const example = (): void => {
     // Setup scoped variables
-    let spatialHashGrid: ThreeSpatialHashGrid;
+    let spatialHashGrid: ThreeSpatialHashGrid<Cube>;
     let cameraControls: CameraControls;
     let scene: THREE.Scene;
     let group: THREE.Group;
@@ -31,6 +34,7 @@ const example = (): void => {
     const gui = new GUI();
     const configFolder = gui.addFolder('Config');
     let checkFolder: GUI;
+    let debugFolder: GUI;
 
     const params = {
         boundsX: 16,
@@ -40,9 +44,13 @@ const example = (): void => {
         cubeSize: 1,
         numOfCubes: 40,
         randomize: true,
+        moveRatio: 0.25,
         x: 0,
         z: 0,
         status: 'N/A',
+        updated: 0,
+        rebucketed: 0,
+        queryTime: '0 ms',
         log: () => {},
         reInit: () => {},
     };
@@ -51,6 +59,10 @@ const example = (): void => {
     const stats = new Stats();
     document.body.appendChild(stats.dom);
 
+    // Custom panels for the stats of the grid, click the panel to cycle through them.
+    const cellsPanel = stats.addPanel(new Stats.Panel('CELLS', '#ff8', '#221'));
+    const clientsPanel = stats.addPanel(new Stats.Panel('CLIENTS', '#f8f', '#212'));
+
     /**
      * Initialize a basic three.js scene with all the bells and whistles.
      */
@@ -121,14 +133,13 @@ const example = (): void => {
         let previousTime = 0;
 
         const updateCubes = (): void => {
-            for (let i = 0; i < spatialHashGrid.clients.length; i++) {
-                const client = spatialHashGrid.clients[i];
-                const cube = client.metadata.object as unknown as THREE.Mesh;
-                const [x, z] = setRandomPosition(cube);
-                client.position[0] = x;
-                client.position[1] = z;
-                spatialHashGrid.updateClient(client);
+            for (let i = 0; i < cubes.children.length; i++) {
+                if (Math.random() < params.moveRatio) setRandomPosition(cubes.children[i] as Cube);
             }
+            // Only the cubes that have moved are re-measured.
+            const { updated, rebucketed } = spatialHashGrid.update();
+            params.updated = updated;
+            params.rebucketed = rebucketed;
         };
 
         const animate = (currentTime: number = 0): void => {
@@ -146,6 +157,17 @@ const example = (): void => {
                 previousTime = currentTime;
             }
 
+            // Show the cells touched by the last check.
+            spatialHashGrid.helper?.update();
+
+            // Feed the stats of this frame into the custom panels.
+            const gridStats = spatialHashGrid.getStats();
+            if (gridStats) {
+                cellsPanel.update(gridStats.cellsVisited, gridHelperSize * gridHelperSize);
+                clientsPanel.update(gridStats.clientsReturned, params.numOfCubes);
+                spatialHashGrid.resetStats();
+            }
+
             // Render
             requestAnimationFrame(animate);
             stats.update();
@@ -160,24 +182,20 @@ const example = (): void => {
      * Perform a simple check to see if the given position is near any objects in the grid.
      */
     const check = () => {
-        const { x, z } = params;
-        const results = spatialHashGrid.getNearbyObjects(new THREE.Vector3(x, 0, z), [
-            params.cellSizeX,
-            params.cellSizeZ,
-        ]);
+        const { x, z, cellSizeX, cellSizeZ } = params;
+        // Look in the center of the highlighted cell.
+        const results = spatialHashGrid.getNearbyObjects(
+            new THREE.Vector3(x + cellSizeX / 2, 0, z + cellSizeZ / 2),
+            [cellSizeX / 2, cellSizeZ / 2],
+        );
 
         for (let i = 0; i < cubes.children.length; i++) {
-            const cube = cubes.children[i] as THREE.Mesh<THREE.BufferGeometry, THREE.Material>;
+            const cube = cubes.children[i] as Cube;
             cube.material = cubeMaterial;
         }
 
         for (let i = 0; i < results.length; i++) {
-            const result = results[i];
-            const object = result.metadata.object as unknown as THREE.Mesh<
-                THREE.BufferGeometry,
-                THREE.Material
-            >;
-            object.material = checkMaterial;
+            results[i].material = checkMaterial;
         }
 
         params.status = results.length ? 'Near' : 'Not near';
@@ -193,7 +211,6 @@ const example = (): void => {
         cube.position.z = z;
         cube.updateMatrix();
         cube.updateMatrixWorld();
-        return [x, z];
     };
 
     /**
@@ -218,6 +235,7 @@ const example = (): void => {
         const deltaZHalf = params.boundsZ / 2;
 
         // Clear everything and re-add the grid.
+        spatialHashGrid?.dispose();
         group.clear();
         cubes.clear();
         group.add(cubes);
@@ -231,8 +249,15 @@ const example = (): void => {
         spatialHashGrid = new ThreeSpatialHashGrid(
             bounds,
             [gridHelperDivisions, gridHelperDivisions],
-            true,
+            {
+                debug: { heatmap: true, queries: true },
+                trackChanges: true,
+                stats: true,
+            },
         );
+        spatialHashGrid.onQuery = ({ time }) => {
+            params.queryTime = `${time.toFixed(3)} ms`;
+        };
         group.add(spatialHashGrid.group);
 
         // Create N cubes and add them to the grid
@@ -250,13 +275,18 @@ const example = (): void => {
         // Everything ok, lets update the camera position
         cameraControls.setPosition(0, gridHelperSize * 2, gridHelperSize * 2, true);
 
-        // Create 1x1 grid
-        const gridHelper = new THREE.GridHelper(gridHelperSize, gridHelperSize, 0xffffff, 0xffffff);
+        // Create 1x1 grid, with a major line every 4 units and the index of each cell
+        const gridHelper = new GridHelper(gridHelperSize, gridHelperSize, {
+            color: 0x78909c,
+            majorColor: 0xffffff,
+            majorInterval: 4,
+            centerLines: true,
+            labels: true,
+        });
         gridHelper.position.x = deltaXHalf;
         gridHelper.position.z = deltaZHalf;
-        const material = gridHelper.material as THREE.Material;
-        material.opacity = 0.2;
-        material.transparent = true;
+        gridHelper.material.opacity = 0.4;
+        gridHelper.material.transparent = true;
         group.add(gridHelper);
 
         // Create axes
@@ -279,6 +309,9 @@ const example = (): void => {
             .add(params, 'z', 0, params.boundsZ - params.cellSizeZ, params.cellSizeX)
             .onChange(check);
         checkFolder.add(params, 'status').listen().disable();
+        checkFolder.add(params, 'updated').name('Updated cubes').listen().disable();
+        checkFolder.add(params, 'rebucketed').name('Re-bucketed cubes').listen().disable();
+        checkFolder.add(params, 'queryTime').name('Query time').listen().disable();
         checkFolder.add(params, 'log');
         params.log = () => {
             spatialHashGrid.clients.forEach((client) => {
@@ -286,6 +319,16 @@ const example = (): void => {
             });
         };
 
+        if (debugFolder) debugFolder.destroy();
+        debugFolder = gui.addFolder('Debug');
+        const { helper } = spatialHashGrid;
+        if (helper) {
+            debugFolder.add(helper, 'lines').name('Cells');
+            debugFolder.add(helper, 'heatmap').name('Heatmap');
+            debugFolder.add(helper, 'queries').name('Last query');
+            debugFolder.add(helper, 'clients').name('Client boxes');
+        }
+
         // Everything ok, lets check the initial position
         check();
     };
@@ -307,12 +350,16 @@ const example = (): void => {
         .name('Cell size, X')
         .onChange((value: number) => {
             params.cellSizeZ = value;
+            // Re-hash the cubes in place, no need to reinitialize the grid.
+            spatialHashGrid.setCellSize([value, value]);
+            check();
         })
         .listen();
     configFolder.add(params, 'cellSizeZ', 1, 10, 1).name('Cell size, Z').disable().listen();
     configFolder.add(params, 'cubeSize', 1, 10, 1).name('Cube size (radius)');
     configFolder.add(params, 'numOfCubes', 1, 100_000, 1).name('Number of cubes');
     configFolder.add(params, 'randomize').name('Randomize cubes position');
+    configFolder.add(params, 'moveRatio', 0, 1, 0.05).name('Ratio of moving cubes');
     configFolder.add(params, 'reInit').name('Reinitialize SpatialHashGrid');
     params.reInit = () => {
         createSpatialHashGrid();
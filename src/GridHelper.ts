@@ -1,80 +1,275 @@
 import * as THREE from 'three';
+import { GridHelperOptions, Plane } from './types';
+
+/**
+ * The components of a point on each plane: the first axis, the second axis and the normal.
+ */
+const PLANE_AXES: Record<Plane, [number, number, number]> = {
+    xz: [0, 2, 1],
+    xy: [0, 1, 2],
+    yz: [1, 2, 0],
+};
+
+/**
+ * Colors of the X, Y and Z axes, like the ones of `THREE.AxesHelper`.
+ */
+const AXIS_COLORS = [0xff0000, 0x00ff00, 0x0000ff];
+
+/**
+ * Max width and height of the label texture, in pixels.
+ */
+const LABEL_TEXTURE_SIZE = 4096;
+
+/**
+ * Max size of a cell in the label texture, in pixels.
+ */
+const LABEL_CELL_SIZE = 64;
+
+/**
+ * Tolerance for sizes that are (almost) a multiple of the spacing.
+ */
+const EPSILON = 1e-6;
+
+/**
+ * Offsets of the lines along one axis, from the min edge.
+ * The max edge always gets a line, even if the size is not a multiple of the spacing.
+ * @param size
+ * @param spacing
+ * @returns
+ */
+const getLineOffsets = (size: number, spacing: number): number[] => {
+    const count = Math.floor(size / spacing + EPSILON);
+    const offsets: number[] = [];
+    for (let i = 0; i <= count; i++) offsets.push(i * spacing);
+    if (count * spacing < size - EPSILON * spacing) offsets.push(size);
+    return offsets;
+};
 
 /**
  * The GridHelper is an object to define grids. Grids are two-dimensional arrays of lines.
  * This a custom implementation of the [THREE.GridHelper](https://threejs.org/docs/#api/en/helpers/GridHelper) class
- * with support for varying X and Y grid sizes.
+ * with support for varying X and Y grid sizes and spacings, major lines, center lines and cell labels.
  *
- * The gird is defined as a 2D plane with the origin at the center of the grid.
+ * The grid is defined as a 2D plane, by default the XZ plane, with the origin at the center of the grid.
+ * Move the helper to move the origin. See {@link GridHelperOptions}.
  * X and Y grid sizes are defined in the constructor and can be updated using the `update` method.
  */
 export class GridHelper extends THREE.Object3D {
     protected _group: THREE.Group;
 
-    protected _disposableObjects: THREE.BufferGeometry[];
+    protected _disposableObjects: { dispose(): void }[];
+
+    /**
+     * The options of the last update.
+     */
+    protected _options: GridHelperOptions = {};
 
     public material: THREE.LineBasicMaterial;
 
     /**
      * Generate a grid.
-     * @param gridSizeX The size of the grid in the X direction (2D).
-     * @param gridSizeY The size of the grid in the Y direction (2D).
-     * @param gridSpacing The spacing between grid lines.
+     * @param gridSizeX The size of the grid along the first axis of the plane, e.g. X.
+     * @param gridSizeY The size of the grid along the second axis of the plane, e.g. Z.
+     * @param spacingOrOptions The spacing between grid lines, or a {@link GridHelperOptions} object.
      */
-    constructor(gridSizeX: number = 1, gridSizeY: number = 1, gridSpacing: number = 1) {
+    constructor(
+        gridSizeX: number = 1,
+        gridSizeY: number = 1,
+        spacingOrOptions: number | GridHelperOptions = 1,
+    ) {
         super();
         this._group = new THREE.Group();
         this._disposableObjects = [];
         this.material = new THREE.LineBasicMaterial({ vertexColors: true, toneMapped: false });
 
         this.add(this._group);
-        this.update(gridSizeX, gridSizeY, gridSpacing);
+        this.update(gridSizeX, gridSizeY, spacingOrOptions);
     }
 
     /**
      * Update the grid.
-     * @param gridSizeX The size of the grid in the X direction (2D).
-     * @param gridSizeY The size of the grid in the Y direction (2D).
-     * @param gridSpacing The spacing between grid lines.
+     * @param gridSizeX The size of the grid along the first axis of the plane, e.g. X.
+     * @param gridSizeY The size of the grid along the second axis of the plane, e.g. Z.
+     * @param spacingOrOptions The spacing between grid lines, or a {@link GridHelperOptions} object.
+     * Omitted options keep their previous value.
      */
-    public update(gridSizeX: number = 1, gridSizeY: number = 1, gridSpacing: number = 1): void {
+    public update(
+        gridSizeX: number = 1,
+        gridSizeY: number = 1,
+        spacingOrOptions: number | GridHelperOptions = {},
+    ): void {
         this._group.clear();
         this._disposableObjects.forEach((object) => object.dispose());
         this._disposableObjects = [];
 
-        // Create horizontal lines
-        const horizontalVertices = [];
-        for (let i = -gridSizeY / 2; i <= gridSizeY / 2; i += gridSpacing) {
-            horizontalVertices.push(-gridSizeX / 2, 0, i);
-            horizontalVertices.push(gridSizeX / 2, 0, i);
+        this._options = {
+            ...this._options,
+            ...(typeof spacingOrOptions === 'number'
+                ? { spacingX: spacingOrOptions, spacingY: spacingOrOptions }
+                : spacingOrOptions),
+        };
+        const {
+            spacingX = 1,
+            spacingY = spacingX,
+            majorInterval = 0,
+            color = 0x888888,
+            majorColor = 0xdddddd,
+            centerLines = false,
+            plane = 'xz',
+            centered = true,
+            elevation = 0,
+            labels = false,
+        } = this._options;
+
+        const [a, b, normal] = PLANE_AXES[plane];
+        const minX = centered ? -gridSizeX / 2 : 0;
+        const minY = centered ? -gridSizeY / 2 : 0;
+        const minor = new THREE.Color(color);
+        const major = new THREE.Color(majorColor);
+        const positions: number[] = [];
+        const colors: number[] = [];
+        const point = [0, 0, 0];
+        point[normal] = elevation;
+
+        const addLine = (x1: number, y1: number, x2: number, y2: number, c: THREE.Color) => {
+            point[a] = x1;
+            point[b] = y1;
+            positions.push(point[0], point[1], point[2]);
+            point[a] = x2;
+            point[b] = y2;
+            positions.push(point[0], point[1], point[2]);
+            colors.push(c.r, c.g, c.b, c.r, c.g, c.b);
+        };
+        const isMajor = (i: number, offset: number, spacing: number) =>
+            majorInterval > 0 && i % majorInterval === 0 && offset === i * spacing;
+
+        // Lines along the first axis, one per step along the second axis.
+        getLineOffsets(gridSizeY, spacingY).forEach((offset, i) => {
+            const y = minY + offset;
+            addLine(minX, y, minX + gridSizeX, y, isMajor(i, offset, spacingY) ? major : minor);
+        });
+        // Lines along the second axis.
+        getLineOffsets(gridSizeX, spacingX).forEach((offset, i) => {
+            const x = minX + offset;
+            addLine(x, minY, x, minY + gridSizeY, isMajor(i, offset, spacingX) ? major : minor);
+        });
+        if (centerLines) {
+            const x = minX + gridSizeX / 2;
+            const y = minY + gridSizeY / 2;
+            addLine(minX, y, minX + gridSizeX, y, new THREE.Color(AXIS_COLORS[a]));
+            addLine(x, minY, x, minY + gridSizeY, new THREE.Color(AXIS_COLORS[b]));
         }
-        const horizontalGeometry = new THREE.BufferGeometry();
-        horizontalGeometry.setAttribute(
-            'position',
-            new THREE.Float32BufferAttribute(horizontalVertices, 3),
-        );
-        this._disposableObjects.push(horizontalGeometry);
-        const horizontalLine = new THREE.LineSegments(horizontalGeometry, this.material);
-        this._group.add(horizontalLine);
-
-        // Create vertical lines
-        const verticalVertices = [];
-        for (let i = -gridSizeX / 2; i <= gridSizeX / 2; i += gridSpacing) {
-            verticalVertices.push(i, 0, -gridSizeY / 2);
-            verticalVertices.push(i, 0, gridSizeY / 2);
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+        this._disposableObjects.push(geometry);
+        this._group.add(new THREE.LineSegments(geometry, this.material));
+
+        if (labels) {
+            this.addLabels(gridSizeX, gridSizeY, spacingX, spacingY, minX, minY, major);
         }
-        const verticalGeometry = new THREE.BufferGeometry();
-        verticalGeometry.setAttribute(
-            'position',
-            new THREE.Float32BufferAttribute(verticalVertices, 3),
+    }
+
+    /**
+     * Write the index of each cell into it, using a single texture for the whole grid.
+     * @param gridSizeX
+     * @param gridSizeY
+     * @param spacingX
+     * @param spacingY
+     * @param minX The min edge of the grid along the first axis.
+     * @param minY The min edge of the grid along the second axis.
+     * @param color Color of the text.
+     */
+    protected addLabels(
+        gridSizeX: number,
+        gridSizeY: number,
+        spacingX: number,
+        spacingY: number,
+        minX: number,
+        minY: number,
+        color: THREE.Color,
+    ): void {
+        const { plane = 'xz', elevation = 0 } = this._options;
+        const cellsX = Math.ceil(gridSizeX / spacingX - EPSILON);
+        const cellsY = Math.ceil(gridSizeY / spacingY - EPSILON);
+        const pixels = Math.max(
+            1,
+            Math.min(LABEL_CELL_SIZE, Math.floor(LABEL_TEXTURE_SIZE / Math.max(cellsX, cellsY))),
         );
-        this._disposableObjects.push(verticalGeometry);
-        const verticalLine = new THREE.LineSegments(verticalGeometry, this.material);
-        this._group.add(verticalLine);
-
-        // Adjust position
-        this._group.translateX(gridSizeX / 2);
-        this._group.translateY(0.1);
-        this._group.translateZ(gridSizeY / 2);
+        const width = cellsX * pixels;
+        const height = cellsY * pixels;
+
+        let canvas: HTMLCanvasElement | OffscreenCanvas;
+        if (typeof document !== 'undefined') {
+            canvas = document.createElement('canvas');
+        } else if (typeof OffscreenCanvas !== 'undefined') {
+            canvas = new OffscreenCanvas(width, height);
+        } else {
+            return;
+        }
+        canvas.width = width;
+        canvas.height = height;
+        const context = canvas.getContext('2d') as CanvasRenderingContext2D | null;
+        if (context == null) return;
+
+        context.fillStyle = `#${color.getHexString()}`;
+        context.font = `${Math.round(pixels * 0.3)}px sans-serif`;
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        for (let x = 0; x < cellsX; x++) {
+            for (let y = 0; y < cellsY; y++) {
+                context.fillText(`${x},${y}`, (x + 0.5) * pixels, (y + 0.5) * pixels);
+            }
+        }
+
+        // The rows of the canvas go along the second axis, i.e. the top row is at its min edge.
+        const [a, b, normal] = PLANE_AXES[plane];
+        const maxX = minX + cellsX * spacingX;
+        const maxY = minY + cellsY * spacingY;
+        const positions: number[] = [];
+        const point = [0, 0, 0];
+        point[normal] = elevation;
+        for (const [x, y] of [
+            [minX, minY],
+            [maxX, minY],
+            [minX, maxY],
+            [maxX, maxY],
+        ]) {
+            point[a] = x;
+            point[b] = y;
+            positions.push(point[0], point[1], point[2]);
+        }
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        geometry.setAttribute('uv', new THREE.Float32BufferAttribute([0, 1, 1, 1, 0, 0, 1, 0], 2));
+        geometry.setIndex([0, 2, 1, 1, 2, 3]);
+
+        const texture = new THREE.CanvasTexture(canvas);
+        if ('colorSpace' in texture) {
+            texture.colorSpace = THREE.SRGBColorSpace;
+        } else {
+            // Before three r152, the color space was set with `encoding`.
+            (texture as THREE.Texture).encoding = THREE.sRGBEncoding;
+        }
+        const material = new THREE.MeshBasicMaterial({
+            map: texture,
+            transparent: true,
+            depthWrite: false,
+            side: THREE.DoubleSide,
+            toneMapped: false,
+        });
+        this._disposableObjects.push(geometry, texture, material);
+        this._group.add(new THREE.Mesh(geometry, material));
+    }
+
+    /**
+     * Free the geometries, materials and textures of the grid.
+     */
+    public dispose(): void {
+        this._group.clear();
+        this._disposableObjects.forEach((object) => object.dispose());
+        this._disposableObjects = [];
+        this.material.dispose();
     }
 }
@@ -0,0 +1,387 @@
+import {
+    Bounds,
+    Client,
+    ClientPair,
+    Dimensions,
+    NearestClient,
+    QueryFilter,
+    SpatialHashGridOptions,
+    Vector,
+    Vector2,
+} from './types';
+import SpatialHashGrid from './SpatialHashGrid';
+
+/**
+ * Default number of levels.
+ */
+const LEVELS = 4;
+
+/**
+ * A single level of a {@link HierarchicalSpatialHashGrid}.
+ * Makes the protected API of the grid available to the hierarchy.
+ */
+class Level<T, V extends Vector> extends SpatialHashGrid<T, V> {
+    public newClient(
+        position: V,
+        dimensions: Dimensions<V>,
+        data: T,
+        layers?: number,
+        mask?: number,
+    ): Client<T, V> {
+        return super.newClient(position, dimensions, data, layers, mask);
+    }
+
+    public insert(client: Client<T, V>): void {
+        super.insert(client);
+    }
+
+    public removeClient(client: Client<T, V>): void {
+        super.removeClient(client);
+    }
+
+    public findNear(position: V, bounds: V, filter?: QueryFilter<T, V>): Client<T, V>[] {
+        return super.findNear(position, bounds, filter);
+    }
+
+    public findInBox(
+        position: V,
+        bounds: V,
+        exact?: boolean,
+        filter?: QueryFilter<T, V>,
+    ): Client<T, V>[] {
+        return super.findInBox(position, bounds, exact, filter);
+    }
+
+    public findInRadius(
+        position: V,
+        radius: number,
+        exact?: boolean,
+        filter?: QueryFilter<T, V>,
+    ): Client<T, V>[] {
+        return super.findInRadius(position, radius, exact, filter);
+    }
+
+    public findAtPoint(position: V, exact?: boolean, filter?: QueryFilter<T, V>): Client<T, V>[] {
+        return super.findAtPoint(position, exact, filter);
+    }
+
+    public matchesFilter(client: Client<T, V>, filter: QueryFilter<T, V> | undefined): boolean {
+        return super.matchesFilter(client, filter);
+    }
+}
+
+/**
+ * A stack of {@link SpatialHashGrid | SpatialHashGrids} with increasingly larger cells.
+ *
+ * A single grid links a client into every cell it touches.
+ * A huge client (e.g. a terrain tile or a building shell) in a grid with small cells
+ * ends up in thousands of cells, while small clients need small cells to be found quickly.
+ *
+ * Each level doubles the cell size of the level below.
+ * A client is stored in the finest level whose cells are at least as large as the client,
+ * i.e. every client touches at most two cells along each axis.
+ * Queries visit every level and combine the results.
+ *
+ * @typeParam T Type of the user payload of each {@link Client}.
+ * @typeParam V {@link Vector2} for a 2D grid, {@link Vector3} for a 3D grid.
+ *
+ * @author André Wisén
+ * @copyright MIT
+ */
+export default class HierarchicalSpatialHashGrid<T = unknown, V extends Vector = Vector2> {
+    /**
+     * The grids, finest first.
+     */
+    private readonly levels: Level<T, V>[];
+
+    /**
+     * Lookup from a client to its level.
+     */
+    private readonly clientLevels: Map<Client<T, V>, Level<T, V>>;
+
+    /**
+     * Create a hierarchy of fixed sized grids.
+     * @param bounds The min/max the grids will operate on.
+     * @param dimensions How **many** cells along each dimensional axis of the finest level.
+     * Each coarser level has half as many cells along each axis.
+     * @param levels Number of levels.
+     * @param options Options of each level, see {@link SpatialHashGridOptions}.
+     */
+    constructor(
+        bounds: Bounds<V>,
+        dimensions: Dimensions<V>,
+        levels?: number,
+        options?: SpatialHashGridOptions,
+    );
+    /**
+     * Create a hierarchy of infinite grids.
+     * @param cellSize The size of a single cell of the finest level.
+     * Each coarser level has twice the cell size.
+     * @param levels Number of levels.
+     * @param options Options of each level, see {@link SpatialHashGridOptions}.
+     */
+    constructor(cellSize: V, levels?: number, options?: SpatialHashGridOptions);
+    constructor(
+        boundsOrCellSize: Bounds<V> | V,
+        dimensionsOrLevels?: Dimensions<V> | number,
+        levelsOrOptions?: number | SpatialHashGridOptions,
+        options?: SpatialHashGridOptions,
+    ) {
+        const infinite = !Array.isArray(boundsOrCellSize[0]);
+        let levels: number;
+        if (infinite) {
+            levels = (dimensionsOrLevels as number | undefined) ?? LEVELS;
+            options = levelsOrOptions as SpatialHashGridOptions | undefined;
+        } else {
+            levels = (levelsOrOptions as number | undefined) ?? LEVELS;
+        }
+        if (levels < 1) throw new Error('A hierarchy needs at least one level.');
+
+        this.levels = [];
+        this.clientLevels = new Map();
+        for (let i = 0; i < levels; i++) {
+            const scale = 2 ** i;
+            if (infinite) {
+                const cellSize = boundsOrCellSize as V;
+                this.levels.push(new Level(cellSize.map((size) => size * scale) as V, options));
+            } else {
+                const dimensions = dimensionsOrLevels as Dimensions<V>;
+                this.levels.push(
+                    new Level(
+                        boundsOrCellSize as Bounds<V>,
+                        dimensions.map((n) => Math.max(1, Math.round(n / scale))) as V,
+                        options,
+                    ),
+                );
+            }
+        }
+    }
+
+    /**
+     * Get the finest level whose cells are at least as large as the client.
+     * @param dimensions Size of the client.
+     * @returns The coarsest level if the client is larger than every cell.
+     */
+    private getLevel(dimensions: readonly number[]): Level<T, V> {
+        const { levels } = this;
+        for (let i = 0; i < levels.length - 1; i++) {
+            const cellSize = levels[i].getCellSize();
+            let fits = true;
+            for (let j = 0; j < cellSize.length; j++) {
+                if (dimensions[j] > cellSize[j]) fits = false;
+            }
+            if (fits) return levels[i];
+        }
+        return levels[levels.length - 1];
+    }
+
+    /**
+     * Get the number of levels.
+     * @returns
+     */
+    public getLevelCount(): number {
+        return this.levels.length;
+    }
+
+    /**
+     * Get the level a client is stored in. `0` is the finest level.
+     * @param client
+     * @returns `-1` if the client is not in the grid.
+     */
+    public getClientLevel(client: Client<T, V>): number {
+        const level = this.clientLevels.get(client);
+        return level ? this.levels.indexOf(level) : -1;
+    }
+
+    /**
+     * Create a new client in the level that matches its size.
+     * @param position Initial position of the client.
+     * @param dimensions With and height (and depth) of the client.
+     * @param data User payload of the client.
+     * @param layers Bitmask of the layers the client is a member of.
+     * @param mask Bitmask of the layers the client collides with.
+     * @returns
+     */
+    public newClient(
+        position: V,
+        dimensions: Dimensions<V>,
+        data: T,
+        layers?: number,
+        mask?: number,
+    ): Client<T, V> {
+        const level = this.getLevel(dimensions);
+        const client = level.newClient(position, dimensions, data, layers, mask);
+        this.clientLevels.set(client, level);
+        return client;
+    }
+
+    /**
+     * Update client.
+     * The client is moved to another level if its size has changed.
+     * @returns `true` if the client was moved to other cells.
+     */
+    public updateClient(client: Client<T, V>): boolean {
+        const current = this.clientLevels.get(client);
+        if (current == null) throw new Error('Client is not in the grid.');
+
+        const level = this.getLevel(client.dimensions);
+        if (level === current) return current.updateClient(client);
+
+        current.removeClient(client);
+        level.insert(client);
+        this.clientLevels.set(client, level);
+        return true;
+    }
+
+    /**
+     * Remove client from the grid.
+     * @param client
+     */
+    public removeClient(client: Client<T, V>): void {
+        const level = this.clientLevels.get(client);
+        if (level == null) throw new Error('Client is not in the grid.');
+        level.removeClient(client);
+        this.clientLevels.delete(client);
+    }
+
+    /**
+     * Find nearby clients in every level.
+     * See {@link SpatialHashGrid.findNear}.
+     * @param position Center of the lookup.
+     * @param bounds Size of the lookup box.
+     * @param filter Only include clients that pass the filter.
+     * @returns
+     */
+    public findNear(position: V, bounds: V, filter?: QueryFilter<T, V>): Client<T, V>[] {
+        return this.levels.flatMap((level) => level.findNear(position, bounds, filter));
+    }
+
+    /**
+     * Find the clients that overlap a box.
+     * See {@link SpatialHashGrid.findInBox}.
+     * @param position Center of the box.
+     * @param bounds Size of the box.
+     * @param exact If `false`, return every client in the touched cells.
+     * @param filter Only include clients that pass the filter.
+     * @returns
+     */
+    public findInBox(
+        position: V,
+        bounds: V,
+        exact = true,
+        filter?: QueryFilter<T, V>,
+    ): Client<T, V>[] {
+        return this.levels.flatMap((level) => level.findInBox(position, bounds, exact, filter));
+    }
+
+    /**
+     * Find the clients that overlap a circle (2D) or sphere (3D).
+     * See {@link SpatialHashGrid.findInRadius}.
+     * @param position Center of the circle/sphere.
+     * @param radius Radius of the circle/sphere.
+     * @param exact If `false`, return every client in the touched cells.
+     * @param filter Only include clients that pass the filter.
+     * @returns
+     */
+    public findInRadius(
+        position: V,
+        radius: number,
+        exact = true,
+        filter?: QueryFilter<T, V>,
+    ): Client<T, V>[] {
+        return this.levels.flatMap((level) => level.findInRadius(position, radius, exact, filter));
+    }
+
+    /**
+     * Find the clients that contain a point.
+     * See {@link SpatialHashGrid.findAtPoint}.
+     * @param position The point.
+     * @param exact If `false`, return every client in the touched cell.
+     * @param filter Only include clients that pass the filter.
+     * @returns
+     */
+    public findAtPoint(position: V, exact = true, filter?: QueryFilter<T, V>): Client<T, V>[] {
+        return this.levels.flatMap((level) => level.findAtPoint(position, exact, filter));
+    }
+
+    /**
+     * Find the `k` nearest clients across every level.
+     * See {@link SpatialHashGrid.findNearest}.
+     * @param position Center of the search.
+     * @param k Max number of clients to find.
+     * @param maxDistance Ignore clients further away than this.
+     * @param filter Only include clients that pass the filter.
+     * @returns Clients and their distances, closest first.
+     */
+    public findNearest(
+        position: V,
+        k = 1,
+        maxDistance = Infinity,
+        filter?: QueryFilter<T, V>,
+    ): NearestClient<T, V>[] {
+        // The `k` nearest clients overall are among the `k` nearest clients of each level.
+        return this.levels
+            .flatMap((level) => level.findNearest(position, k, maxDistance, filter))
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, k);
+    }
+
+    /**
+     * Visit each pair of clients that share at least one cell.
+     * See {@link SpatialHashGrid.forEachPotentialPair}.
+     *
+     * Clients in different levels are paired if the smaller client touches a cell of the larger client.
+     * Each pair is reported exactly once.
+     * @param callback Called for each pair. Return `true` to stop.
+     * @param exact If `true`, only report pairs whose extents overlap.
+     * @param filter Only include clients that pass the filter.
+     */
+    public forEachPotentialPair(
+        callback: (a: Client<T, V>, b: Client<T, V>) => boolean | void,
+        exact = false,
+        filter?: QueryFilter<T, V>,
+    ): void {
+        let stopped = false;
+        const visit = (a: Client<T, V>, b: Client<T, V>) => (stopped = callback(a, b) === true);
+
+        // Pairs within a level.
+        for (let i = 0; i < this.levels.length && !stopped; i++) {
+            this.levels[i].forEachPotentialPair(visit, exact, filter);
+        }
+
+        // Pairs across levels. Look up each client in the coarser levels only.
+        for (const [a, level] of this.clientLevels) {
+            if (stopped) return;
+            if (!level.matchesFilter(a, filter)) continue;
+            for (let i = this.levels.indexOf(level) + 1; i < this.levels.length; i++) {
+                const others = exact
+                    ? this.levels[i].findInBox(a.position, a.dimensions, true, filter)
+                    : this.levels[i].findNear(a.position, a.dimensions, filter);
+                for (let j = 0; j < others.length; j++) {
+                    const b = others[j];
+                    if ((a.layers & b.mask) === 0 || (b.layers & a.mask) === 0) continue;
+                    if (visit(a, b)) return;
+                }
+            }
+        }
+    }
+
+    /**
+     * Get each pair of clients that overlap.
+     * See {@link HierarchicalSpatialHashGrid.forEachPotentialPair}.
+     * @param exact If `false`, also return pairs that only share a cell.
+     * @param filter Only include clients that pass the filter.
+     * @returns
+     */
+    public getCollisionPairs(exact = true, filter?: QueryFilter<T, V>): ClientPair<T, V>[] {
+        const pairs: ClientPair<T, V>[] = [];
+        this.forEachPotentialPair(
+            (a, b) => {
+                pairs.push([a, b]);
+            },
+            exact,
+            filter,
+        );
+        return pairs;
+    }
+}
@@ -0,0 +1,125 @@
+import { CellStorage, Client, Head, Nodes, Vector, Vector2 } from './types';
+
+/**
+ * Stores the clients of each cell in a doubly-linked list of {@link Head} nodes.
+ *
+ * Each client keeps a reference to its nodes, see {@link Cells.nodes}.
+ * I.e. a client is removed without searching the cells.
+ *
+ * See: [https://medium.com/front-end-weekly/data-structures-linked-list-implementation-in-js-3beb48ff49cd](https://medium.com/front-end-weekly/data-structures-linked-list-implementation-in-js-3beb48ff49cd)
+ */
+export default class LinkedListStorage<T = unknown, V extends Vector = Vector2>
+    implements CellStorage<T, V, Head<T, V>>
+{
+    /**
+     * The head node of each cell.
+     * Fixed grids store the cells in a flat array.
+     * Infinite grids store the occupied cells in a hash map.
+     */
+    private cells: (Head<T, V> | null)[] | Map<number, Head<T, V>> = new Map();
+
+    public reset(cellCount: number | null): void {
+        // Doubled linked list.
+        this.cells = cellCount === null ? new Map() : [...Array(cellCount)].map((_) => null);
+    }
+
+    public insert(client: Client<T, V>, keys: readonly number[], count: number): void {
+        // Track nodes of the doubly-linked list.
+        const nodes: Nodes<T, V> = [];
+
+        for (let i = 0; i < count; i++) {
+            const key = keys[i];
+            // Node in the doubly-linked list.
+            const head: Head<T, V> = {
+                next: null,
+                prev: null,
+                client,
+            };
+            nodes.push(head);
+            head.next = this.getCell(key);
+            if (head.next) {
+                head.next.prev = head;
+            }
+            this.setCell(key, head);
+        }
+        client.cells.nodes = nodes;
+    }
+
+    public remove(client: Client<T, V>, keys: readonly number[], count: number): void {
+        const { nodes } = client.cells;
+        if (nodes === null) throw new Error('Client has no nodes.');
+
+        // The nodes are stored in the same order as they were inserted.
+        for (let i = 0; i < count; i++) {
+            // Reference to the doubly-linked list list node.
+            const node = nodes[i];
+
+            // Just swap the nodes.
+            if (node.next) {
+                node.next.prev = node.prev;
+            }
+            // Just swap the nodes.
+            if (node.prev) {
+                node.prev.next = node.next;
+            }
+
+            // If you delete the head node, simply point to the next node.
+            if (!node.prev) {
+                this.setCell(keys[i], node.next);
+            }
+        }
+        client.cells.nodes = null;
+    }
+
+    public first(key: number): Head<T, V> | null {
+        return this.getCell(key);
+    }
+
+    public next(entry: Head<T, V>): Head<T, V> | null {
+        return entry.next;
+    }
+
+    public client(entry: Head<T, V>): Client<T, V> {
+        return entry.client;
+    }
+
+    public forEachCell(callback: (key: number) => boolean | void): void {
+        const { cells } = this;
+        if (cells instanceof Map) {
+            for (const key of cells.keys()) {
+                if (callback(key)) return;
+            }
+            return;
+        }
+        for (let key = 0; key < cells.length; key++) {
+            if (cells[key] && callback(key)) return;
+        }
+    }
+
+    /**
+     * Get the head node of a cell.
+     * @param key
+     * @returns
+     */
+    private getCell(key: number): Head<T, V> | null {
+        const { cells } = this;
+        return cells instanceof Map ? cells.get(key) ?? null : cells[key];
+    }
+
+    /**
+     * Set the head node of a cell.
+     * Empty cells of an infinite grid are freed.
+     * @param key
+     * @param head
+     */
+    private setCell(key: number, head: Head<T, V> | null): void {
+        const { cells } = this;
+        if (!(cells instanceof Map)) {
+            cells[key] = head;
+        } else if (head) {
+            cells.set(key, head);
+        } else {
+            cells.delete(key);
+        }
+    }
+}
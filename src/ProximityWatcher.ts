@@ -0,0 +1,117 @@
+import * as THREE from 'three';
+import { ProximityEvent, QueryFilter, Vector, Vector2, WatchOptions } from './types';
+
+/**
+ * The event that is reused for every dispatch. Its object is cleared in between.
+ */
+interface ReusedEvent {
+    type: ProximityEvent['type'];
+    object: THREE.Object3D | null;
+}
+
+const _event: ReusedEvent = /* @__PURE__ */ { type: 'stay', object: null };
+
+/**
+ * Watches a region of a {@link ThreeSpatialHashGrid} and dispatches a {@link ProximityEvent}
+ * when objects enter, stay in or exit it. See {@link ThreeSpatialHashGrid.watch}.
+ *
+ * The events are dispatched by {@link ThreeSpatialHashGrid.update}.
+ *
+ * ```ts
+ * const watcher = grid.watch(door, { margin: 2 });
+ * watcher.addEventListener('enter', ({ object }) => open(door));
+ * watcher.addEventListener('exit', ({ object }) => close(door));
+ * ```
+ */
+export default class ProximityWatcher<
+    T extends THREE.Object3D = THREE.Object3D,
+    V extends Vector = Vector2,
+> extends THREE.EventDispatcher<ProximityEvent<T>> {
+    /**
+     * The watched region.
+     * A world space box or sphere, or an object whose bounding box is the region.
+     * Boxes and spheres can be changed in place.
+     */
+    public readonly region: THREE.Box3 | THREE.Sphere | T;
+
+    /**
+     * See {@link WatchOptions.margin}.
+     */
+    public margin: number;
+
+    /**
+     * See {@link WatchOptions.exact}.
+     */
+    public exact: boolean;
+
+    /**
+     * See {@link WatchOptions.filter}.
+     */
+    public filter: THREE.Layers | QueryFilter<T, V> | undefined;
+
+    /**
+     * The objects that overlapped the region at the last update.
+     */
+    public readonly objects = new Set<T>();
+
+    /**
+     * World space box of the region, including the margin, at the last update.
+     */
+    public readonly box = new THREE.Box3();
+
+    /**
+     * Create a `ProximityWatcher` object.
+     * @param region See {@link ProximityWatcher.region}.
+     * @param options See {@link WatchOptions}.
+     */
+    constructor(region: THREE.Box3 | THREE.Sphere | T, options: WatchOptions<T, V> = {}) {
+        super();
+        const { margin = 0, exact = true, filter } = options;
+        this.region = region;
+        this.margin = margin;
+        this.exact = exact;
+        this.filter = filter;
+    }
+
+    /**
+     * Compare the objects that overlap the region with the previous update, and dispatch the events.
+     * Called by {@link ThreeSpatialHashGrid.update}.
+     * @param objects The objects that overlap the region now.
+     * `null` if nothing has changed since the last update, i.e. only `stay` events are dispatched.
+     */
+    public update(objects: readonly T[] | null): void {
+        const previous = this.objects;
+        if (objects === null) {
+            for (const object of previous) this.dispatch('stay', object);
+            return;
+        }
+        const current = new Set(objects);
+
+        for (const object of previous) {
+            if (current.has(object)) continue;
+            previous.delete(object);
+            this.dispatch('exit', object);
+        }
+        for (const object of current) {
+            if (previous.has(object)) {
+                this.dispatch('stay', object);
+            } else {
+                previous.add(object);
+                this.dispatch('enter', object);
+            }
+        }
+    }
+
+    /**
+     * Dispatch an event without allocating it.
+     * @param type
+     * @param object
+     */
+    private dispatch(type: ProximityEvent['type'], object: T): void {
+        _event.type = type;
+        _event.object = object;
+        // The object is set for the duration of the dispatch.
+        this.dispatchEvent(_event as ProximityEvent<T>);
+        _event.object = null;
+    }
+}
@@ -1,8 +1,54 @@
-import { Bounds, CellIndex, Client, Dimensions, Head, Nodes, Vector2 } from './types';
+import {
+    AdaptiveOptions,
+    Bounds,
+    CellIndex,
+    CellStorage,
+    Client,
+    ClientBatchResult,
+    ClientJSON,
+    ClientPair,
+    Dimensions,
+    GridStats,
+    NearestClient,
+    OccupancyStats,
+    QueryFilter,
+    QueryStats,
+    SpatialHashGridJSON,
+    SpatialHashGridOptions,
+    Vector,
+    Vector2,
+    Vector3,
+} from './types';
 import math from './math';
+import LinkedListStorage from './LinkedListStorage';
+import TypedArrayStorage from './TypedArrayStorage';
+import { SERIALIZATION_VERSION, checkVersion, decodeGrid, encodeGrid } from './serialization';
 
-let cellIndexX = /* @__PURE__ */ 0;
-let cellIndexY = /* @__PURE__ */ 0;
+/**
+ * Infinite grids pack the integer cell coordinates into a single safe integer, i.e. 52 bits.
+ * 2D grids get 26 bits per axis, i.e. cell coordinates between `-33554432` and `33554431`.
+ * 3D grids get 17 bits per axis, i.e. cell coordinates between `-65536` and `65535`.
+ * Clients outside of these cells cannot be added, see {@link SpatialHashGrid.checkCellRange}.
+ */
+const SPARSE_OFFSET_2D = /* @__PURE__ */ 2 ** 25;
+const SPARSE_SPAN_2D = /* @__PURE__ */ 2 ** 26;
+const SPARSE_OFFSET_3D = /* @__PURE__ */ 2 ** 16;
+const SPARSE_SPAN_3D = /* @__PURE__ */ 2 ** 17;
+
+/**
+ * A mask with every layer enabled.
+ */
+const ALL_LAYERS = /* @__PURE__ */ 0xffffffff;
+
+const _lower: number[] = /* @__PURE__ */ [0, 0, 0];
+const _upper: number[] = /* @__PURE__ */ [0, 0, 0];
+const _keys: number[] = /* @__PURE__ */ [];
+const _min: number[] = /* @__PURE__ */ [0, 0, 0];
+const _query: QueryStats = /* @__PURE__ */ { cells: 0, clients: 0, time: 0 };
+const _max: number[] = /* @__PURE__ */ [0, 0, 0];
+const _batchPosition: number[] = /* @__PURE__ */ [0, 0, 0];
+const _batchSize: number[] = /* @__PURE__ */ [0, 0, 0];
+const _cell: number[] = /* @__PURE__ */ [0, 0, 0];
 
 /**
  * A spatial hash is a 2 or 3 dimensional extension of the hash table.
@@ -71,53 +117,697 @@ let cellIndexY = /* @__PURE__ */ 0;
  * +---+---+---+---+
  * ```
  *
+ * The grid doesn't need to be fixed. Pass only a cell size to the constructor and the cells
+ * will be stored in a hash map instead. Cells are created when a client enters them and freed when the
+ * last client leaves. I.e. an infinite grid.
+ *
+ * The same idea works in 3D. Pass `[x, y, z]` bounds and dimensions to the constructor
+ * and the grid will hash into cubes instead of squares.
+ *
  * See: [https://www.gamedev.net/tutorials/programming/general-and-gameplay-programming/spatial-hashing-r2697/](https://www.gamedev.net/tutorials/programming/general-and-gameplay-programming/spatial-hashing-r2697/)
  *
+ * @typeParam T Type of the user payload of each {@link Client}.
+ * @typeParam V {@link Vector2} for a 2D grid, {@link Vector3} for a 3D grid.
+ *
  * @author André Wisén
  * @copyright MIT
  */
-export default class SpatialHashGrid {
+export default class SpatialHashGrid<T = unknown, V extends Vector = Vector2> {
     /**
-     * A doubly-linked list containing a two-dimensional array of nodes.
-     * Each node corresponds to a cell.
+     * A list of clients for each cell.
+     * Use {@link SpatialHashGrid.getCellKey} to go from a cell index to the list.
      *
-     * See: [https://medium.com/front-end-weekly/data-structures-linked-list-implementation-in-js-3beb48ff49cd](https://medium.com/front-end-weekly/data-structures-linked-list-implementation-in-js-3beb48ff49cd)
+     * See {@link LinkedListStorage} and {@link TypedArrayStorage}.
      */
-    private cells: Nodes;
+    private readonly storage: CellStorage<T, V>;
 
     /**
      * How many cells along each dimensional axis.
+     * `null` if the grid is infinite.
      *
      * For example:
      * If the world is 100 units wide and we have 5 cells,
      * then each cell will span 100/5=20 units.
      */
-    private dimensions: Dimensions;
+    private dimensions: Dimensions<V> | null;
 
     /**
      * The `min` and `max` the grid will operate on.
+     * `null` if the grid is infinite.
+     */
+    private bounds: Bounds<V> | null;
+
+    /**
+     * The size of a single cell along each dimensional axis.
      */
-    private bounds: Bounds;
+    private cellSize: V;
+
+    /**
+     * Number of axes. `2` for a 2D grid and `3` for a 3D grid.
+     */
+    protected readonly axes: number;
+
+    /**
+     * `true` if the grid has no bounds, i.e. the cells are created on demand.
+     */
+    protected readonly infinite: boolean;
 
     /**
      * Used to deduplicate clients in {@link SpatialHashGrid.findNear}.
      */
     private queryIds: number;
 
+    /**
+     * Number of clients in the grid.
+     */
+    private clientCount: number;
+
+    /**
+     * The min and max cell index that has ever been occupied.
+     * Only used by infinite grids, to limit how far a ray is walked and a nearest search expands.
+     */
+    private occupied: [CellIndex, CellIndex];
+
+    /**
+     * The world space min and max that has ever been covered by a client.
+     * Limits the outer cells of a fixed grid, which also hold the clients outside of the bounds.
+     */
+    private reach: [number[], number[]];
+
+    /**
+     * Flat cell indices, i.e. `[x0, y0, z0, x1, y1, z1, ...]`, of the cells touched by the last query.
+     * `null` unless queries are traced, see {@link SpatialHashGrid.traceQueries}.
+     */
+    private trace: number[] | null;
+
+    /**
+     * Number of cells touched by the current query, see {@link SpatialHashGrid.collectStats}.
+     */
+    private cellsVisited: number;
+
+    /**
+     * `null` unless stats are collected, see {@link SpatialHashGrid.collectStats}.
+     */
+    private stats: GridStats | null;
+
+    /**
+     * Start time of the current query, in milliseconds.
+     */
+    private queryStart: number;
+
+    /**
+     * Called after each query while stats are collected, e.g. to feed a profiler.
+     * The argument is reused by every query, i.e. copy the values to keep them.
+     */
+    public onQuery: ((query: Readonly<QueryStats>) => void) | null;
+
     /**
      * Create a `SpatialHashGrid` object using a fixed sized grid.
+     *
+     * Pass `[x, y]` tuples for a 2D grid and `[x, y, z]` tuples for a 3D grid.
      * @param bounds The min/max the grid will operate on. I.e. if the world goes from `-1000, -1000` to `1000, 1000`, then this should be `[-1000, -1000], [1000, 1000]`.
      * @param dimensions How **many** cells along each dimensional axis. I.e. if the world is 100 units wide and we have 5 cells, then each cell will span `100/5=20 units`.
+     * @param options See {@link SpatialHashGridOptions}.
      */
-    constructor(bounds: Bounds, dimensions: Dimensions) {
-        const [x, y] = dimensions;
+    constructor(bounds: Bounds<V>, dimensions: Dimensions<V>, options?: SpatialHashGridOptions);
+    /**
+     * Create an infinite `SpatialHashGrid` object.
+     * Cells are created and freed on demand, so the world can grow in any direction.
+     * @param cellSize The size of a single cell along each dimensional axis.
+     * @param options See {@link SpatialHashGridOptions}.
+     */
+    constructor(cellSize: V, options?: SpatialHashGridOptions);
+    constructor(
+        boundsOrCellSize: Bounds<V> | V,
+        dimensionsOrOptions?: Dimensions<V> | SpatialHashGridOptions,
+        options: SpatialHashGridOptions = {},
+    ) {
+        this.infinite = !Array.isArray(boundsOrCellSize[0]);
+        if (this.infinite) options = (dimensionsOrOptions as SpatialHashGridOptions) ?? {};
+        const { storage = 'linked' } = options;
+        this.storage = storage === 'typed' ? new TypedArrayStorage() : new LinkedListStorage();
+        this.queryIds = 0;
+        this.clientCount = 0;
+        this.trace = null;
+        this.cellsVisited = 0;
+        this.stats = null;
+        this.queryStart = 0;
+        this.onQuery = null;
+        if (options.stats) this.collectStats();
+        this.occupied = [
+            [Infinity, Infinity, Infinity],
+            [-Infinity, -Infinity, -Infinity],
+        ];
+        this.reach = [
+            [Infinity, Infinity, Infinity],
+            [-Infinity, -Infinity, -Infinity],
+        ];
+
+        if (this.infinite) {
+            const cellSize = boundsOrCellSize as V;
+            this.storage.reset(null);
+            this.dimensions = null;
+            this.bounds = null;
+            this.cellSize = cellSize;
+            this.axes = cellSize.length;
+            return;
+        }
 
-        // Doubled linked list.
-        this.cells = [...Array(x)].map((_) => [...Array(y)].map((_) => null)) as unknown as Nodes;
+        const bounds = boundsOrCellSize as Bounds<V>;
+        const dimensions = dimensionsOrOptions as Dimensions<V> | undefined;
+        if (
+            dimensions == null ||
+            bounds[0].length !== dimensions.length ||
+            bounds[1].length !== dimensions.length
+        ) {
+            throw new Error('Bounds and dimensions must have the same number of axes.');
+        }
 
         this.dimensions = dimensions;
         this.bounds = bounds;
-        this.queryIds = 0;
+        this.cellSize = dimensions.map((n, i) => (bounds[1][i] - bounds[0][i]) / n) as V;
+        this.axes = dimensions.length;
+        this.storage.reset(this.getCellCount());
+    }
+
+    /**
+     * Get the number of cells.
+     * @returns `null` if the grid is infinite.
+     */
+    private getCellCount(): number | null {
+        if (this.infinite) return null;
+        const [x, y, z = 1] = this.dimensions as number[];
+        return x * y * z;
+    }
+
+    /**
+     * Get the bounds of the grid.
+     * @returns `null` if the grid is infinite.
+     */
+    public getBounds(): Bounds<V> | null {
+        return this.bounds;
+    }
+
+    /**
+     * Get the number of cells along each dimensional axis.
+     * @returns `null` if the grid is infinite.
+     */
+    public getDimensions(): Dimensions<V> | null {
+        return this.dimensions;
+    }
+
+    /**
+     * Get the size of a single cell along each dimensional axis.
+     * @returns
+     */
+    public getCellSize(): V {
+        return this.cellSize;
+    }
+
+    /**
+     * Change the bounds of a fixed grid.
+     * The number of cells is kept, i.e. the cell size changes.
+     * The clients are re-hashed in place.
+     * @param bounds
+     */
+    public setBounds(bounds: Bounds<V>): void {
+        this.resize(bounds, this.dimensions as Dimensions<V>);
+    }
+
+    /**
+     * Change the number of cells of a fixed grid.
+     * The clients are re-hashed in place.
+     * @param dimensions
+     */
+    public setDimensions(dimensions: Dimensions<V>): void {
+        this.resize(this.bounds as Bounds<V>, dimensions);
+    }
+
+    /**
+     * Change the size of a single cell.
+     * The clients are re-hashed in place.
+     *
+     * Fixed grids keep their bounds. The number of cells is rounded so that the cells fit the bounds,
+     * i.e. the actual cell size might differ slightly.
+     * @param cellSize
+     */
+    public setCellSize(cellSize: V): void {
+        if (cellSize.length !== this.axes) {
+            throw new Error('Cell size must have the same number of axes as the grid.');
+        }
+        if (this.infinite) {
+            const clients = this.collectClients();
+            for (let i = 0; i < clients.length; i++) {
+                this.checkCellRange(clients[i].position, clients[i].dimensions, cellSize);
+            }
+            this.cellSize = [...cellSize] as V;
+            this.rebuild();
+            return;
+        }
+        const [min, max] = this.bounds as number[][];
+        this.setDimensions(
+            cellSize.map((size, i) => Math.max(1, Math.round((max[i] - min[i]) / size))) as V,
+        );
+    }
+
+    /**
+     * Grow the bounds of a fixed grid to cover a box.
+     * The cell size is kept, i.e. cells are added along the edges.
+     * Infinite grids already cover everything.
+     * @param position Center of the box.
+     * @param dimensions Size of the box.
+     * @returns `true` if the bounds were changed.
+     */
+    public expandBounds(position: V, dimensions: V): boolean {
+        if (this.infinite) return false;
+        const [min, max] = this.bounds as number[][];
+        const cellSize = this.cellSize as number[];
+        const nextMin = [...min];
+        const nextMax = [...max];
+        const nextDimensions = [...(this.dimensions as number[])];
+        let expanded = false;
+
+        for (let i = 0; i < this.axes; i++) {
+            const lower = position[i] - dimensions[i] / 2;
+            const upper = position[i] + dimensions[i] / 2;
+            if (lower < min[i]) {
+                const n = Math.ceil((min[i] - lower) / cellSize[i]);
+                nextMin[i] -= n * cellSize[i];
+                nextDimensions[i] += n;
+                expanded = true;
+            }
+            if (upper > max[i]) {
+                const n = Math.ceil((upper - max[i]) / cellSize[i]);
+                nextMax[i] += n * cellSize[i];
+                nextDimensions[i] += n;
+                expanded = true;
+            }
+        }
+
+        if (expanded) this.resize([nextMin, nextMax] as Bounds<V>, nextDimensions as V);
+        return expanded;
+    }
+
+    /**
+     * Change the bounds and dimensions of a fixed grid, and re-hash the clients.
+     * @param bounds
+     * @param dimensions
+     */
+    private resize(bounds: Bounds<V>, dimensions: Dimensions<V>): void {
+        if (this.infinite) throw new Error('Infinite grids have no bounds or dimensions.');
+        if (
+            bounds[0].length !== this.axes ||
+            bounds[1].length !== this.axes ||
+            dimensions.length !== this.axes
+        ) {
+            throw new Error('Bounds and dimensions must have the same number of axes as the grid.');
+        }
+        this.bounds = bounds;
+        this.dimensions = dimensions;
+        this.cellSize = dimensions.map((n, i) => (bounds[1][i] - bounds[0][i]) / n) as V;
+        this.rebuild();
+    }
+
+    /**
+     * Re-hash every client in place, e.g. after changing the cell size.
+     * The clients keep their identity, i.e. references to them stay valid.
+     */
+    public rebuild(): void {
+        // Collect the clients before the cells are replaced.
+        const clients = this.collectClients();
+        for (let i = 0; i < clients.length; i++) {
+            this.checkCellRange(clients[i].position, clients[i].dimensions);
+        }
+
+        this.storage.reset(this.getCellCount());
+        this.clientCount = 0;
+        this.occupied = [
+            [Infinity, Infinity, Infinity],
+            [-Infinity, -Infinity, -Infinity],
+        ];
+        this.reach = [
+            [Infinity, Infinity, Infinity],
+            [-Infinity, -Infinity, -Infinity],
+        ];
+        for (let i = 0; i < clients.length; i++) this.insert(clients[i]);
+    }
+
+    /**
+     * Collect every client in the grid.
+     * The dimensions might have changed already, i.e. this doesn't rely on the cell indices.
+     * @returns
+     */
+    private collectClients(): Client<T, V>[] {
+        const { storage } = this;
+        const clients: Client<T, V>[] = [];
+        const queryId = this.queryIds++;
+        storage.forEachCell((key) => {
+            for (let entry = storage.first(key); entry !== null; entry = storage.next(entry)) {
+                const client = storage.client(entry);
+                if (client._queryId === queryId) continue;
+                client._queryId = queryId;
+                clients.push(client);
+            }
+        });
+        return clients;
+    }
+
+    /**
+     * Serialize the bounds, dimensions and cell size of the grid, and the position, extent,
+     * layers and payload of every client. The storage type is not serialized.
+     *
+     * Called by `JSON.stringify`. The payloads are written by {@link SpatialHashGrid.serializeData}.
+     * @returns
+     */
+    public toJSON(): SpatialHashGridJSON {
+        const { bounds, dimensions, cellSize } = this;
+        const clients = this.collectClients().map((client) => {
+            const json: ClientJSON = {
+                position: client.position.slice(),
+                dimensions: client.dimensions.slice(),
+                layers: client.layers,
+                mask: client.mask,
+                data: this.serializeData(client),
+            };
+            if (client.index !== undefined) json.index = client.index;
+            return json;
+        });
+        return {
+            version: SERIALIZATION_VERSION,
+            bounds: bounds === null ? null : [bounds[0].slice(), bounds[1].slice()],
+            dimensions: dimensions === null ? null : dimensions.slice(),
+            cellSize: cellSize.slice(),
+            clients,
+        };
+    }
+
+    /**
+     * Serialize the grid into a compact binary format, see {@link SpatialHashGrid.toJSON}.
+     * Use {@link decodeGrid} to read it.
+     * @returns
+     */
+    public toBinary(): ArrayBuffer {
+        return encodeGrid(this.toJSON());
+    }
+
+    /**
+     * Restore a grid serialized by {@link SpatialHashGrid.toJSON}.
+     * The grid gets the bounds, dimensions and cell size of the serialized grid.
+     * @param json
+     * @param deserialize Get the payload of a client. Return `undefined` to skip the client.
+     * Uses the serialized payload by default.
+     * @param options See {@link SpatialHashGridOptions}.
+     * @returns
+     */
+    public static fromJSON<T = unknown, V extends Vector = Vector2>(
+        json: SpatialHashGridJSON,
+        deserialize: (client: ClientJSON) => T | undefined = ({ data }) => data as T,
+        options: SpatialHashGridOptions = {},
+    ): SpatialHashGrid<T, V> {
+        const { bounds, dimensions, cellSize } = json;
+        const grid =
+            bounds === null || dimensions === null
+                ? new SpatialHashGrid<T, V>(cellSize as V, options)
+                : new SpatialHashGrid<T, V>(bounds as Bounds<V>, dimensions as V, options);
+        grid.restoreClients(json, deserialize);
+        return grid;
+    }
+
+    /**
+     * Restore a grid serialized by {@link SpatialHashGrid.toBinary}.
+     * See {@link SpatialHashGrid.fromJSON}.
+     * @param buffer
+     * @param deserialize Get the payload of a client. Return `undefined` to skip the client.
+     * @param options See {@link SpatialHashGridOptions}.
+     * @returns
+     */
+    public static fromBinary<T = unknown, V extends Vector = Vector2>(
+        buffer: ArrayBuffer,
+        deserialize?: (client: ClientJSON) => T | undefined,
+        options?: SpatialHashGridOptions,
+    ): SpatialHashGrid<T, V> {
+        return SpatialHashGrid.fromJSON<T, V>(decodeGrid(buffer), deserialize, options);
+    }
+
+    /**
+     * Get the serialized payload of a client. Must be JSON compatible.
+     * @param client
+     * @returns The payload itself by default.
+     */
+    protected serializeData(client: Client<T, V>): unknown {
+        return client.data;
+    }
+
+    /**
+     * Add the clients of a serialized grid, see {@link SpatialHashGrid.toJSON}.
+     * The bounds and dimensions of the grid are kept.
+     * @param json
+     * @param deserialize Get the payload of a client. Return `undefined` to skip the client.
+     * @returns The new clients.
+     */
+    protected restoreClients(
+        json: SpatialHashGridJSON,
+        deserialize: (client: ClientJSON) => T | undefined,
+    ): Client<T, V>[] {
+        checkVersion(json.version);
+        if (json.cellSize.length !== this.axes) {
+            throw new Error('The serialized grid has a different number of axes.');
+        }
+
+        const clients: Client<T, V>[] = [];
+        for (const entry of json.clients) {
+            const data = deserialize(entry);
+            if (data === undefined) continue;
+            const client = this.newClient(
+                entry.position.slice() as V,
+                entry.dimensions.slice() as V,
+                data,
+                entry.layers,
+                entry.mask,
+            );
+            if (entry.index !== undefined) client.index = entry.index;
+            clients.push(client);
+        }
+        return clients;
+    }
+
+    /**
+     * Record the cells touched by each query, e.g. to display them.
+     * Adds a little overhead to every cell that a query visits.
+     * @param enabled
+     */
+    public traceQueries(enabled = true): void {
+        this.trace = enabled ? this.trace ?? [] : null;
+    }
+
+    /**
+     * Get the cells touched by the last query, see {@link SpatialHashGrid.traceQueries}.
+     * @returns Flat cell indices, i.e. `[x0, y0, z0, x1, y1, z1, ...]`. Empty if queries are not traced.
+     */
+    public getTracedCells(): readonly number[] {
+        return this.trace ?? [];
+    }
+
+    /**
+     * Count the inserts, removes and updates of the clients and measure the cost of each query.
+     * Adds a little overhead to every query.
+     * @param enabled
+     */
+    public collectStats(enabled = true): void {
+        if (enabled) {
+            this.stats = this.stats ?? {
+                inserts: 0,
+                removes: 0,
+                updates: 0,
+                rebuckets: 0,
+                queries: 0,
+                cellsVisited: 0,
+                clientsReturned: 0,
+                queryTime: 0,
+            };
+        } else {
+            this.stats = null;
+        }
+    }
+
+    /**
+     * Get the stats collected since the last {@link SpatialHashGrid.resetStats}.
+     * @returns `null` if stats are not collected, see {@link SpatialHashGrid.collectStats}.
+     */
+    public getStats(): Readonly<GridStats> | null {
+        return this.stats;
+    }
+
+    /**
+     * Set every counter of the stats to zero, e.g. at the start of a frame.
+     */
+    public resetStats(): void {
+        const { stats } = this;
+        if (stats === null) return;
+        stats.inserts = 0;
+        stats.removes = 0;
+        stats.updates = 0;
+        stats.rebuckets = 0;
+        stats.queries = 0;
+        stats.cellsVisited = 0;
+        stats.clientsReturned = 0;
+        stats.queryTime = 0;
+    }
+
+    /**
+     * Visit each occupied cell and count its clients.
+     * @param callback Called with the index of the cell and its number of clients.
+     */
+    public forEachOccupiedCell(
+        callback: (x: number, y: number, z: number, count: number) => void,
+    ): void {
+        const { storage } = this;
+        this.forEachCell((key, x, y, z) => {
+            let count = 0;
+            for (let entry = storage.first(key); entry !== null; entry = storage.next(entry)) {
+                count++;
+            }
+            callback(x, y, z, count);
+        });
+    }
+
+    /**
+     * Collect statistics about how the clients are distributed over the cells.
+     *
+     * Walks every occupied cell, i.e. don't call this every frame for large grids.
+     * @returns
+     */
+    public getOccupancy(): OccupancyStats {
+        let occupiedCells = 0;
+        let nodeCount = 0;
+        let maxClientsPerCell = 0;
+        let maxCellsPerClient = 0;
+        const min = [Infinity, Infinity, Infinity];
+        const max = [-Infinity, -Infinity, -Infinity];
+        const queryId = this.queryIds++;
+
+        const { storage } = this;
+        this.forEachCell((key, x, y, z) => {
+            let count = 0;
+            for (let entry = storage.first(key); entry !== null; entry = storage.next(entry)) {
+                count++;
+                const client = storage.client(entry);
+                if (client._queryId === queryId) continue;
+                client._queryId = queryId;
+                const cells = this.getClientCellCount(client);
+                if (cells > maxCellsPerClient) maxCellsPerClient = cells;
+            }
+            occupiedCells++;
+            nodeCount += count;
+            if (count > maxClientsPerCell) maxClientsPerCell = count;
+
+            min[0] = Math.min(min[0], x);
+            min[1] = Math.min(min[1], y);
+            min[2] = Math.min(min[2], z);
+            max[0] = Math.max(max[0], x);
+            max[1] = Math.max(max[1], y);
+            max[2] = Math.max(max[2], z);
+        });
+
+        // Infinite grids count the cells between the outermost occupied cells.
+        let cells = 0;
+        if (!this.infinite) {
+            cells = (this.dimensions as number[]).reduce((product, n) => product * n, 1);
+        } else if (occupiedCells > 0) {
+            cells = (max[0] - min[0] + 1) * (max[1] - min[1] + 1) * (max[2] - min[2] + 1);
+        }
+
+        const clients = this.clientCount;
+        return {
+            clients,
+            cells,
+            occupiedCells,
+            emptyRatio: cells > 0 ? 1 - occupiedCells / cells : 0,
+            meanClientsPerCell: occupiedCells > 0 ? nodeCount / occupiedCells : 0,
+            maxClientsPerCell,
+            meanCellsPerClient: clients > 0 ? nodeCount / clients : 0,
+            maxCellsPerClient,
+        };
+    }
+
+    /**
+     * Suggest a cell size for the current clients.
+     *
+     * A cell is at least as large as the mean extent of the clients,
+     * i.e. a typical client touches one or two cells along each axis.
+     * Cells are made larger if there would be fewer than `clientsPerCell` clients per cell,
+     * e.g. for small or point-like clients that are spread out.
+     * @param clientsPerCell Desired number of clients per cell, if the clients were spread out evenly.
+     * @returns The current cell size if the grid is empty.
+     */
+    public suggestCellSize(clientsPerCell = 4): V {
+        const clients = this.collectClients();
+        if (clients.length === 0) return [...this.cellSize] as V;
+
+        const { axes } = this;
+        const mean = new Array(axes).fill(0);
+        const min = new Array(axes).fill(Infinity);
+        const max = new Array(axes).fill(-Infinity);
+        for (let i = 0; i < clients.length; i++) {
+            const { position, dimensions } = clients[i];
+            for (let j = 0; j < axes; j++) {
+                mean[j] += dimensions[j] / clients.length;
+                min[j] = Math.min(min[j], position[j] - dimensions[j] / 2);
+                max[j] = Math.max(max[j], position[j] + dimensions[j] / 2);
+            }
+        }
+
+        // Size of a cell if the clients were spread out evenly. Flat axes are ignored.
+        let volume = 1;
+        let spread = 0;
+        for (let j = 0; j < axes; j++) {
+            if (max[j] - min[j] <= 0) continue;
+            volume *= max[j] - min[j];
+            spread++;
+        }
+        const even = spread > 0 ? ((volume * clientsPerCell) / clients.length) ** (1 / spread) : 0;
+
+        const cellSize = this.cellSize as number[];
+        return mean.map((size, j) => {
+            const suggested = Math.max(size, max[j] - min[j] > 0 ? even : 0);
+            return suggested > 0 ? suggested : cellSize[j];
+        }) as V;
+    }
+
+    /**
+     * Rebuild the grid with the suggested cell size, if the clients are badly distributed.
+     * See {@link SpatialHashGrid.getOccupancy} and {@link SpatialHashGrid.suggestCellSize}.
+     * @param options Thresholds of a bad distribution.
+     * @returns `true` if the grid was rebuilt.
+     */
+    public adapt(options: AdaptiveOptions = {}): boolean {
+        const {
+            maxClientsPerCell = 8,
+            maxCellsPerClient = 8,
+            maxEmptyRatio = 0.95,
+            clientsPerCell = 4,
+            tolerance = 0.25,
+        } = options;
+
+        const stats = this.getOccupancy();
+        if (stats.clients === 0) return false;
+        if (
+            stats.meanClientsPerCell <= maxClientsPerCell &&
+            stats.meanCellsPerClient <= maxCellsPerClient &&
+            stats.emptyRatio <= maxEmptyRatio
+        ) {
+            return false;
+        }
+
+        // Only rebuild if it makes a difference.
+        const cellSize = this.cellSize as number[];
+        const suggested = this.suggestCellSize(clientsPerCell);
+        if (suggested.every((size, i) => Math.abs(size - cellSize[i]) <= tolerance * cellSize[i])) {
+            return false;
+        }
+
+        this.setCellSize(suggested);
+        return true;
     }
 
     /**
@@ -125,86 +815,1082 @@ export default class SpatialHashGrid {
      *
      * In other words: Perform a lookup.
      * @param position
+     * @param target Array the cell index is written to.
+     * @returns `target`
+     */
+    private getCellIndex(position: readonly number[], target: number[]): number[] {
+        // X index
+        target[0] = this.getAxisIndex(position, 0);
+        // Y index
+        target[1] = this.getAxisIndex(position, 1);
+        // Z index. Always zero for a 2D grid.
+        target[2] = this.axes === 3 ? this.getAxisIndex(position, 2) : 0;
+        return target;
+    }
+
+    /**
+     * Get the cell index along a single axis.
+     *
+     * Fixed grids clamp the index to the bounds.
+     * Infinite grids clamp the index to what {@link SpatialHashGrid.getCellKey} can represent.
+     * @param position
+     * @param axis
      * @returns
      */
-    private getCellIndex(position: CellIndex): CellIndex {
-        cellIndexX = math.sat(
-            (position[0] - this.bounds[0][0]) / (this.bounds[1][0] - this.bounds[0][0]),
-        );
-        cellIndexY = math.sat(
-            (position[1] - this.bounds[0][1]) / (this.bounds[1][1] - this.bounds[0][1]),
+    private getAxisIndex(position: readonly number[], axis: number): number {
+        const cellSize = this.cellSize as number[];
+        if (this.infinite) {
+            const offset = this.getSparseOffset();
+            return math.clamp(Math.floor(position[axis] / cellSize[axis]), -offset, offset - 1);
+        }
+        const min = this.bounds![0] as number[];
+        const dimensions = this.dimensions as number[];
+        return math.clamp(
+            Math.floor((position[axis] - min[axis]) / cellSize[axis]),
+            0,
+            dimensions[axis] - 1,
         );
+    }
 
-        return [
-            // X index
-            Math.floor(cellIndexX * (this.dimensions[0] - 1)),
-            // Y index
-            Math.floor(cellIndexY * (this.dimensions[1] - 1)),
-        ];
+    /**
+     * Write the min and max cell index of an axis-aligned box to existing arrays.
+     * @param position Center of the box.
+     * @param dimensions Size of the box.
+     * @param min Target of the min cell index.
+     * @param max Target of the max cell index.
+     */
+    private writeCellRange(
+        position: readonly number[],
+        dimensions: readonly number[],
+        min: number[],
+        max: number[],
+    ): void {
+        for (let i = 0; i < this.axes; i++) {
+            // Subtract half the size
+            _lower[i] = position[i] - dimensions[i] / 2;
+            // Add half the size
+            _upper[i] = position[i] + dimensions[i] / 2;
+        }
+        for (let i = 0; i < 3; i++) {
+            // The Z index is always zero for a 2D grid.
+            min[i] = i < this.axes ? this.getAxisIndex(_lower, i) : 0;
+            max[i] = i < this.axes ? this.getAxisIndex(_upper, i) : 0;
+        }
+    }
+
+    /**
+     * Convert a cell index into a key in {@link SpatialHashGrid.storage}.
+     */
+    private getCellKey(x: number, y: number, z: number): number {
+        if (this.infinite) {
+            if (this.axes === 2)
+                return (x + SPARSE_OFFSET_2D) * SPARSE_SPAN_2D + (y + SPARSE_OFFSET_2D);
+            return (
+                ((x + SPARSE_OFFSET_3D) * SPARSE_SPAN_3D + (y + SPARSE_OFFSET_3D)) *
+                    SPARSE_SPAN_3D +
+                (z + SPARSE_OFFSET_3D)
+            );
+        }
+        const dimensions = this.dimensions as number[];
+        return x + dimensions[0] * (y + dimensions[1] * z);
+    }
+
+    /**
+     * Visit the keys of the cells that a box touches.
+     * The keys change when the grid is rebuilt, see {@link SpatialHashGrid.rebuild}.
+     * @param position Center of the box.
+     * @param dimensions Size of the box.
+     * @param callback Called with the key of each cell. Return `true` to stop.
+     * @returns `true` if the callback stopped the visit.
+     */
+    protected forEachCellKeyInBox(
+        position: V,
+        dimensions: V,
+        callback: (key: number) => boolean | void,
+    ): boolean {
+        this.writeCellRange(position, dimensions, _min, _max);
+        const count = this.getCellKeys(_min as CellIndex, _max as CellIndex);
+        for (let i = 0; i < count; i++) if (callback(_keys[i])) return true;
+        return false;
+    }
+
+    /**
+     * Visit the keys of the cells that a client is in.
+     * @param client
+     * @param callback Called with the key of each cell.
+     */
+    protected forEachClientCellKey(client: Client<T, V>, callback: (key: number) => void): void {
+        const { min, max } = client.cells;
+        if (min === null || max === null) return;
+        const count = this.getCellKeys(min, max);
+        for (let i = 0; i < count; i++) callback(_keys[i]);
     }
 
     /**
      * Create a new client
      * @param position Initial position of the client.
-     * @param dimensions With and height of the client.
+     * @param dimensions With and height (and depth) of the client.
+     * @param data User payload of the client.
+     * @param layers Bitmask of the layers the client is a member of.
+     * @param mask Bitmask of the layers the client collides with.
      * @returns
      */
-    protected newClient(position: CellIndex, dimensions: Dimensions, metadata = {}): Client {
-        const client: Client = {
+    protected newClient(
+        position: V,
+        dimensions: Dimensions<V>,
+        data: T,
+        layers = 1,
+        mask = ALL_LAYERS,
+    ): Client<T, V> {
+        const client: Client<T, V> = {
             position,
             dimensions,
+            layers,
+            mask,
             cells: {
                 min: null, // Index
                 max: null, // Index
                 nodes: null, // Access the doubly-linked list node
+                id: -1, // Id in the typed array storage
             },
             _queryId: -1,
-            metadata,
+            data,
         };
         this.insert(client);
+        if (this.stats !== null) this.stats.inserts++;
 
         return client;
     }
 
     /**
      * Update client.
+     * @returns `true` if the client was moved to other cells.
      */
-    public updateClient(client: Client): void {
-        const {
-            position: [x, y],
-            dimensions: [w, h],
-            cells,
-        } = client;
+    public updateClient(client: Client<T, V>): boolean {
+        const { position, dimensions, cells } = client;
 
         if (cells === null) throw new Error('Client has no cells.');
         const { min, max } = cells;
         if (min === null || max === null) throw new Error('Client has no min/max cells.');
 
-        const i1 = this.getCellIndex([x - w / 2, y - h / 2]);
-        const i2 = this.getCellIndex([x + w / 2, y + h / 2]);
+        this.checkCellRange(position, dimensions);
+        this.writeCellRange(position, dimensions, _min, _max);
+        if (this.stats !== null) this.stats.updates++;
 
         // Expect temporal coherence between frames/updates.
-        if (min[0] === i1[0] && min[1] === i1[1] && max[0] === i2[0] && max[1] === i2[1]) return;
+        if (
+            min[0] === _min[0] &&
+            min[1] === _min[1] &&
+            min[2] === _min[2] &&
+            max[0] === _max[0] &&
+            max[1] === _max[1] &&
+            max[2] === _max[2]
+        ) {
+            return false;
+        }
 
         // If not, then update the client by removing it and adding it again.
-        this.remove(client);
+        this.unlink(client);
         this.insert(client);
+        if (this.stats !== null) this.stats.rebuckets++;
+        return true;
     }
 
     /**
      * Find nearby clients.
+     *
+     * This is a broad-phase lookup. I.e. every client in the touched cells is returned,
+     * even if the client itself is outside of the lookup box.
+     * @param position Center of the lookup.
+     * @param bounds Size of the lookup box.
+     * @param filter Only include clients that pass the filter.
+     * @returns
+     */
+    protected findNear(position: V, bounds: V, filter?: QueryFilter<T, V>): Client<T, V>[] {
+        return this.search(position, bounds, null, filter);
+    }
+
+    /**
+     * Find nearby clients, without allocating a new array.
+     * Same as {@link SpatialHashGrid.findNear}.
+     * @param position Center of the lookup.
+     * @param bounds Size of the lookup box.
+     * @param out Target array. Cleared before the clients are added.
+     * @param filter Only include clients that pass the filter.
+     * @returns `out`
+     */
+    protected findNearInto(
+        position: V,
+        bounds: V,
+        out: Client<T, V>[],
+        filter?: QueryFilter<T, V>,
+    ): Client<T, V>[] {
+        this.beginQuery();
+        this.writeCellRange(position, bounds, _min, _max);
+        out.length = this.collect(_min, _max, null, filter, out, 0);
+        this.endQuery(out.length);
+        return out;
+    }
+
+    /**
+     * Visit nearby clients, without allocating any arrays.
+     * Same clients as {@link SpatialHashGrid.findNear}.
+     *
+     * Do not query the grid from the callback, since every query shares the same duplicate check.
+     * @param position Center of the lookup.
+     * @param bounds Size of the lookup box.
+     * @param callback Called for each client. Return `true` to stop.
+     * @param filter Only include clients that pass the filter.
+     * @returns `true` if the callback stopped the lookup.
+     */
+    protected forEachNear(
+        position: V,
+        bounds: V,
+        callback: (client: Client<T, V>) => boolean | void,
+        filter?: QueryFilter<T, V>,
+    ): boolean {
+        this.beginQuery();
+        this.writeCellRange(position, bounds, _min, _max);
+        // Copy the range, since the temporary arrays are shared by every query.
+        const x1 = _min[0];
+        const y1 = _min[1];
+        const z1 = _min[2];
+        const x2 = _max[0];
+        const y2 = _max[1];
+        const z2 = _max[2];
+        const { storage, trace } = this;
+        const queryId = this.queryIds++;
+        let visited = 0;
+
+        for (let x = x1; x <= x2; ++x) {
+            for (let y = y1; y <= y2; ++y) {
+                for (let z = z1; z <= z2; ++z) {
+                    this.cellsVisited++;
+                    if (trace !== null) trace.push(x, y, z);
+                    let entry = storage.first(this.getCellKey(x, y, z));
+                    while (entry !== null) {
+                        const v = storage.client(entry);
+                        entry = storage.next(entry);
+                        if (v._queryId === queryId) continue;
+                        v._queryId = queryId;
+                        if (!this.matchesFilter(v, filter)) continue;
+                        visited++;
+                        if (callback(v)) {
+                            this.endQuery(visited);
+                            return true;
+                        }
+                    }
+                }
+            }
+        }
+        this.endQuery(visited);
+        return false;
+    }
+
+    /**
+     * Find clients that overlap a box.
+     * @param position Center of the box.
+     * @param bounds Size of the box.
+     * @param exact If `false`, skip the narrow-phase and return every client in the touched cells.
+     * @param filter Only include clients that pass the filter.
+     * @returns
+     */
+    protected findInBox(
+        position: V,
+        bounds: V,
+        exact = true,
+        filter?: QueryFilter<T, V>,
+    ): Client<T, V>[] {
+        return this.search(
+            position,
+            bounds,
+            exact
+                ? (client) =>
+                      math.boxIntersectsBox(client.position, client.dimensions, position, bounds)
+                : null,
+            filter,
+        );
+    }
+
+    /**
+     * Find clients that overlap a circle (2D) or a sphere (3D).
+     * @param position Center of the circle/sphere.
+     * @param radius Radius of the circle/sphere.
+     * @param exact If `false`, skip the narrow-phase and return every client in the touched cells.
+     * @param filter Only include clients that pass the filter.
+     * @returns
+     */
+    protected findInRadius(
+        position: V,
+        radius: number,
+        exact = true,
+        filter?: QueryFilter<T, V>,
+    ): Client<T, V>[] {
+        const radiusSquared = radius * radius;
+        return this.search(
+            position,
+            position.map(() => radius * 2) as V,
+            exact
+                ? (client) =>
+                      math.distanceToBoxSquared(position, client.position, client.dimensions) <=
+                      radiusSquared
+                : null,
+            filter,
+        );
+    }
+
+    /**
+     * Find clients that contain a point.
+     * @param position The point.
+     * @param exact If `false`, skip the narrow-phase and return every client in the touched cell.
+     * @param filter Only include clients that pass the filter.
+     * @returns
+     */
+    protected findAtPoint(position: V, exact = true, filter?: QueryFilter<T, V>): Client<T, V>[] {
+        return this.search(
+            position,
+            position.map(() => 0) as V,
+            exact
+                ? (client) =>
+                      math.distanceToBoxSquared(position, client.position, client.dimensions) === 0
+                : null,
+            filter,
+        );
+    }
+
+    /**
+     * Find the clients near each of many boxes at once.
+     *
+     * The results are written to a reusable output, i.e. no arrays are allocated per query.
+     * The clients of query `i` are `out.clients[out.offsets[i]]` to `out.clients[out.offsets[i + 1] - 1]`.
+     * @param positions Flat list of the centers of the boxes, i.e. `[x0, y0, x1, y1, ...]` for a 2D grid.
+     * @param bounds Size of every box, or a flat list with the size of each box.
+     * @param out Output of a previous batch to reuse. The offsets grow when there are more queries.
+     * @param exact If `false`, skip the narrow-phase and return every client in the touched cells.
+     * @param filter Only include clients that pass the filter.
+     * @returns `out`, or a new output.
+     */
+    protected findNearBatch(
+        positions: ArrayLike<number>,
+        bounds: ArrayLike<number>,
+        out: ClientBatchResult<T, V> = { clients: [], offsets: new Int32Array(0) },
+        exact = false,
+        filter?: QueryFilter<T, V>,
+    ): ClientBatchResult<T, V> {
+        const { axes } = this;
+        if (positions.length % axes !== 0) {
+            throw new Error(`Expected ${axes} components per position.`);
+        }
+        const count = positions.length / axes;
+        const uniform = bounds.length === axes;
+        if (!uniform && bounds.length !== positions.length) {
+            throw new Error('Expected one size for every box, or one size per box.');
+        }
+
+        if (out.offsets.length < count + 1) {
+            out.offsets = new Int32Array(Math.max(count + 1, out.offsets.length * 2));
+        }
+        const { clients, offsets } = out;
+        this.beginQuery();
+
+        // Created once per batch. Reads the current box from the temporary vectors.
+        const test = exact
+            ? (client: Client<T, V>) =>
+                  math.boxIntersectsBox(
+                      client.position,
+                      client.dimensions,
+                      _batchPosition,
+                      _batchSize,
+                  )
+            : null;
+
+        let found = 0;
+        offsets[0] = 0;
+        for (let i = 0; i < count; i++) {
+            for (let axis = 0; axis < axes; axis++) {
+                _batchPosition[axis] = positions[i * axes + axis];
+                _batchSize[axis] = bounds[uniform ? axis : i * axes + axis];
+            }
+            this.writeCellRange(_batchPosition, _batchSize, _min, _max);
+            found = this.collect(_min, _max, test, filter, clients, found);
+            offsets[i + 1] = found;
+        }
+        clients.length = found;
+        this.endQuery(found);
+        return out;
+    }
+
+    /**
+     * Find clients in the cells that pass a test, e.g. the cells inside of a frustum.
+     *
+     * Blocks of cells are tested as a whole and split in halves,
+     * i.e. large regions that fail the test are skipped at once.
+     * The outer cells of a fixed grid also hold the clients outside of the bounds,
+     * so they are tested as if they reach as far as the clients do.
+     * @param cellTest Called with the min/max of a block of cells.
+     * Return `false` if no client in the block can pass. The arrays are reused.
+     * @param test Narrow-phase test. Pass `null` to collect every client in the cells that pass.
+     * @param filter Only include clients that pass the filter.
+     * @returns
+     */
+    protected findInCells(
+        cellTest: (min: readonly number[], max: readonly number[]) => boolean,
+        test: ((client: Client<T, V>) => boolean) | null,
+        filter?: QueryFilter<T, V>,
+    ): Client<T, V>[] {
+        const clients: Client<T, V>[] = [];
+        this.beginQuery();
+        if (this.clientCount === 0) {
+            this.endQuery(0);
+            return clients;
+        }
+
+        const { axes, storage, trace } = this;
+        const dimensions = this.dimensions as number[] | null;
+        const [lower, upper] = this.occupied;
+        const i1 = dimensions ? [0, 0, 0] : [...lower];
+        const i2 = dimensions
+            ? [0, 1, 2].map((i) => (i < axes ? dimensions[i] - 1 : 0))
+            : [...upper];
+        const [reachMin, reachMax] = this.reach;
+        const min = new Array<number>(axes);
+        const max = new Array<number>(axes);
+        const queryId = this.queryIds++;
+
+        const visit = (lo: number[], hi: number[]): void => {
+            for (let i = 0; i < axes; i++) {
+                min[i] = this.getCellMin(i, lo[i]);
+                max[i] = this.getCellMin(i, hi[i] + 1);
+                if (dimensions && lo[i] === 0) min[i] = Math.min(min[i], reachMin[i]);
+                if (dimensions && hi[i] === dimensions[i] - 1)
+                    max[i] = Math.max(max[i], reachMax[i]);
+            }
+            if (!cellTest(min, max)) return;
+
+            // Split the block along its longest axis.
+            let axis = 0;
+            for (let i = 1; i < 3; i++) if (hi[i] - lo[i] > hi[axis] - lo[axis]) axis = i;
+            if (hi[axis] > lo[axis]) {
+                const middle = Math.floor((lo[axis] + hi[axis]) / 2);
+                const a = [...hi];
+                a[axis] = middle;
+                visit(lo, a);
+                const b = [...lo];
+                b[axis] = middle + 1;
+                visit(b, hi);
+                return;
+            }
+
+            // A single cell.
+            this.cellsVisited++;
+            if (trace !== null) trace.push(lo[0], lo[1], lo[2]);
+            let entry = storage.first(this.getCellKey(lo[0], lo[1], lo[2]));
+            while (entry !== null) {
+                const v = storage.client(entry);
+                entry = storage.next(entry);
+                if (v._queryId === queryId) continue;
+                v._queryId = queryId;
+                if (test && !test(v)) continue;
+                if (!this.matchesFilter(v, filter)) continue;
+                clients.push(v);
+            }
+        };
+        visit(i1, i2);
+        this.endQuery(clients.length);
+        return clients;
+    }
+
+    /**
+     * Find the `k` nearest clients.
+     *
+     * The search starts in the cell of the `position` and expands outward, ring by ring.
+     * It stops as soon as no unvisited cell can contain a client closer than the `k` best ones.
+     * The rings are clipped to the cells that can contain clients, i.e. the occupied cells of an infinite grid.
+     * If a ring has more cells than there are clients, the remaining occupied cells are visited instead.
+     *
+     * The distance is measured to the extent of the client, i.e. `0` if the position is inside the client.
+     * @param position Center of the search.
+     * @param k Max number of clients to find.
+     * @param maxDistance Ignore clients further away than this.
+     * @param filter Only include clients that pass the filter.
+     * @returns Clients and their distances, closest first.
+     */
+    public findNearest(
+        position: V,
+        k = 1,
+        maxDistance = Infinity,
+        filter?: QueryFilter<T, V>,
+    ): NearestClient<T, V>[] {
+        const nearest: NearestClient<T, V>[] = [];
+        this.beginQuery();
+        if (k <= 0 || this.clientCount === 0) {
+            this.endQuery(0);
+            return nearest;
+        }
+
+        const center = this.getCellIndex(position, _cell) as CellIndex;
+        const [cx, cy, cz] = center;
+        const queryId = this.queryIds++;
+        const maxDistanceSquared = maxDistance * maxDistance;
+        const { storage, trace } = this;
+        let found = 0;
+
+        // The cells that can contain clients.
+        const dimensions = this.dimensions as number[] | null;
+        const [lower, upper] = dimensions
+            ? [
+                  [0, 0, 0],
+                  [dimensions[0] - 1, dimensions[1] - 1, (dimensions[2] ?? 1) - 1],
+              ]
+            : this.occupied;
+
+        /**
+         * Visit all clients in a cell and keep the `k` best ones, sorted by distance.
+         */
+        const visit = (key: number, x: number, y: number, z: number) => {
+            this.cellsVisited++;
+            if (trace !== null) trace.push(x, y, z);
+            let entry = storage.first(key);
+            while (entry !== null) {
+                const v = storage.client(entry);
+                entry = storage.next(entry);
+                if (v._queryId === queryId) continue;
+                v._queryId = queryId;
+                found++;
+
+                const distance = math.distanceToBoxSquared(position, v.position, v.dimensions);
+                if (distance > maxDistanceSquared) continue;
+                if (nearest.length === k && distance >= nearest[k - 1].distance) continue;
+                if (!this.matchesFilter(v, filter)) continue;
+
+                // Insertion sort. `k` is expected to be small.
+                let i = nearest.length < k ? nearest.length : k - 1;
+                while (i > 0 && nearest[i - 1].distance > distance) {
+                    nearest[i] = nearest[i - 1];
+                    i--;
+                }
+                nearest[i] = { client: v, distance };
+            }
+        };
+        const visitCell = (x: number, y: number, z: number) => {
+            visit(this.getCellKey(x, y, z), x, y, z);
+        };
+
+        /**
+         * Number of cells of the (2r + 1) block that can contain clients.
+         */
+        const getBlockSize = (r: number) => {
+            let size = 1;
+            for (let i = 0; i < 3; i++) {
+                const from = Math.max(center[i] - r, lower[i]);
+                const to = Math.min(center[i] + r, upper[i]);
+                size *= Math.max(to - from + 1, 0);
+            }
+            return size;
+        };
+
+        // Skip the rings that don't reach any cell that can contain clients.
+        let r = 0;
+        for (let i = 0; i < 3; i++) {
+            r = Math.max(r, lower[i] - center[i], center[i] - upper[i]);
+        }
+        // A 2D grid has a single layer of cells.
+        const rz = this.axes === 2 ? 0 : Infinity;
+
+        for (; ; r++) {
+            if (this.infinite && getBlockSize(r) - getBlockSize(r - 1) > this.clientCount) {
+                // Cheaper to visit the occupied cells that are left.
+                this.forEachCell(visit);
+                break;
+            }
+
+            // Visit the cells on the surface of the (2r + 1) block.
+            const x1 = Math.max(cx - r, lower[0]);
+            const x2 = Math.min(cx + r, upper[0]);
+            const y1 = Math.max(cy - r, lower[1]);
+            const y2 = Math.min(cy + r, upper[1]);
+            const z1 = Math.max(cz - Math.min(r, rz), lower[2]);
+            const z2 = Math.min(cz + Math.min(r, rz), upper[2]);
+            for (let x = x1; x <= x2; x++) {
+                if (Math.abs(x - cx) === r) {
+                    for (let y = y1; y <= y2; y++) {
+                        for (let z = z1; z <= z2; z++) visitCell(x, y, z);
+                    }
+                    continue;
+                }
+                for (let y = y1; y <= y2; y++) {
+                    if (Math.abs(y - cy) === r) {
+                        for (let z = z1; z <= z2; z++) visitCell(x, y, z);
+                    } else if (this.axes === 3) {
+                        if (cz - r === z1) visitCell(x, y, z1);
+                        if (cz + r === z2) visitCell(x, y, z2);
+                    } else {
+                        // Jump to the other side of the ring.
+                        y = Math.max(y, cy + r - 1);
+                    }
+                }
+            }
+
+            // All clients have been visited.
+            if (found === this.clientCount) break;
+
+            // The block covers every cell that can contain clients.
+            if (getBlockSize(r) === getBlockSize(Infinity)) break;
+
+            // Every unvisited client is at least this far away.
+            const bound = this.getBlockDistance(position, center, r);
+            if (bound === Infinity || bound > maxDistance) break;
+            if (nearest.length === k && nearest[k - 1].distance <= bound * bound) break;
+        }
+
+        for (let i = 0; i < nearest.length; i++) {
+            nearest[i].distance = Math.sqrt(nearest[i].distance);
+        }
+        this.endQuery(nearest.length);
+        return nearest;
+    }
+
+    /**
+     * Number of cells an infinite grid can hold on each side of the origin, along each axis.
+     * See {@link SpatialHashGrid.getCellKey}.
+     */
+    private getSparseOffset(): number {
+        return this.axes === 2 ? SPARSE_OFFSET_2D : SPARSE_OFFSET_3D;
+    }
+
+    /**
+     * Throw if a box reaches outside of the cells an infinite grid can hold.
+     * Otherwise it would silently pile up in the outermost cells.
+     * @param position Center of the box.
+     * @param dimensions Size of the box.
+     * @param cellSize Defaults to the current cell size.
+     */
+    private checkCellRange(
+        position: readonly number[],
+        dimensions: readonly number[],
+        cellSize: readonly number[] = this.cellSize,
+    ): void {
+        if (!this.infinite) return;
+        const offset = this.getSparseOffset();
+        for (let i = 0; i < this.axes; i++) {
+            const min = Math.floor((position[i] - dimensions[i] / 2) / cellSize[i]);
+            const max = Math.floor((position[i] + dimensions[i] / 2) / cellSize[i]);
+            if (min < -offset || max >= offset) {
+                throw new Error(
+                    `Client is outside of the ${offset} cells on each side of an infinite grid.`,
+                );
+            }
+        }
+    }
+
+    /**
+     * Check if a cell index exists in the grid.
+     */
+    private isCellInRange(x: number, y: number, z: number): boolean {
+        if (this.infinite) {
+            const offset = this.getSparseOffset();
+            return (
+                x >= -offset &&
+                y >= -offset &&
+                x < offset &&
+                y < offset &&
+                (this.axes === 2 ? z === 0 : z >= -offset && z < offset)
+            );
+        }
+        const dimensions = this.dimensions as number[];
+        return (
+            x >= 0 &&
+            y >= 0 &&
+            z >= 0 &&
+            x < dimensions[0] &&
+            y < dimensions[1] &&
+            (this.axes === 2 || z < dimensions[2])
+        );
+    }
+
+    /**
+     * Distance from a position to the outside of a block of cells.
+     * Sides of the block that reach the bounds of a fixed grid are ignored, there are no cells beyond them.
      * @param position
-     * @param bounds
+     * @param center Cell index of the center of the block.
+     * @param r Radius of the block, in cells.
+     * @returns `Infinity` if the block covers the whole grid.
+     */
+    private getBlockDistance(position: readonly number[], center: CellIndex, r: number): number {
+        const dimensions = this.dimensions as number[] | null;
+        let distance = Infinity;
+        for (let i = 0; i < this.axes; i++) {
+            if (dimensions == null || center[i] - r > 0) {
+                distance = Math.min(distance, position[i] - this.getCellMin(i, center[i] - r));
+            }
+            if (dimensions == null || center[i] + r < dimensions[i] - 1) {
+                distance = Math.min(distance, this.getCellMin(i, center[i] + r + 1) - position[i]);
+            }
+        }
+        return Math.max(distance, 0);
+    }
+
+    /**
+     * World coordinate of the lower side of a cell, along a single axis.
+     * @param axis
+     * @param index Cell index along the axis.
+     * @returns
+     */
+    private getCellMin(axis: number, index: number): number {
+        const origin = this.bounds ? this.bounds[0][axis] : 0;
+        return origin + index * this.cellSize[axis];
+    }
+
+    /**
+     * World space min/max of the space that can contain clients.
+     * I.e. the bounds of a fixed grid extended to the clients outside of them,
+     * or the occupied cells of an infinite grid.
      * @returns
      */
-    protected findNear(position: Vector2, bounds: Vector2): Client[] {
-        const [x, y] = position;
-        const [w, h] = bounds;
+    private getExtent(): [number[], number[]] {
+        if (this.bounds) {
+            const [reachMin, reachMax] = this.reach;
+            return [
+                this.bounds[0].map((n, i) => Math.min(n, reachMin[i])),
+                this.bounds[1].map((n, i) => Math.max(n, reachMax[i])),
+            ];
+        }
+        const [min, max] = this.occupied;
+        return [
+            min.map((n, i) => this.getCellMin(i, n)),
+            max.map((n, i) => this.getCellMin(i, n + 1)),
+        ];
+    }
+
+    /**
+     * Walk the cells along a ray and visit each client once.
+     *
+     * The cells are visited in order, using the DDA algorithm of Amanatides & Woo.
+     * See: [A Fast Voxel Traversal Algorithm for Ray Tracing](http://www.cse.yorku.ca/~amana/research/grid.pdf)
+     *
+     * Fixed grids walk the outer cells for the part of the ray outside of the bounds,
+     * as far as the clients in them reach.
+     * @param origin Origin of the ray.
+     * @param direction Direction of the ray. The distance is measured in units of this vector.
+     * @param far Max distance along the ray.
+     * @param callback Called for each client. Return `true` to stop the walk.
+     */
+    protected traverseRay(
+        origin: V,
+        direction: V,
+        far: number,
+        callback: (client: Client<T, V>) => boolean | void,
+    ): void {
+        this.beginQuery();
+        this.endQuery(this.walkRay(origin, direction, far, callback));
+    }
+
+    /**
+     * Walk the cells along a ray, see {@link SpatialHashGrid.traverseRay}.
+     * @returns The number of clients passed to the callback.
+     */
+    private walkRay(
+        origin: V,
+        direction: V,
+        far: number,
+        callback: (client: Client<T, V>) => boolean | void,
+    ): number {
+        if (this.clientCount === 0) return 0;
+
+        // Clip the ray to the cells that can contain clients.
+        const [min, max] = this.getExtent();
+        let tNear = 0;
+        let tFar = far;
+        for (let i = 0; i < this.axes; i++) {
+            if (direction[i] === 0) {
+                if (origin[i] < min[i] || origin[i] > max[i]) return 0;
+                continue;
+            }
+            const t1 = (min[i] - origin[i]) / direction[i];
+            const t2 = (max[i] - origin[i]) / direction[i];
+            tNear = Math.max(tNear, Math.min(t1, t2));
+            tFar = Math.min(tFar, Math.max(t1, t2));
+        }
+        if (tNear > tFar) return 0;
+
+        const start = origin.map((o, i) => o + direction[i] * tNear);
+        const bounds = this.bounds as number[][] | null;
+        const dimensions = this.dimensions as number[] | null;
+        const cell = this.getCellIndex(start, [0, 0, 0]);
+        // The cell index of a fixed grid is not clamped, the walk may start outside of the bounds.
+        if (bounds !== null) {
+            for (let i = 0; i < this.axes; i++) {
+                cell[i] = Math.floor((start[i] - bounds[0][i]) / this.cellSize[i]);
+            }
+        }
+        const step = [0, 0, 0];
+        const tMax = [Infinity, Infinity, Infinity];
+        const tDelta = [Infinity, Infinity, Infinity];
+        for (let i = 0; i < this.axes; i++) {
+            if (direction[i] === 0) continue;
+            step[i] = direction[i] > 0 ? 1 : -1;
+            const boundary = this.getCellMin(i, direction[i] > 0 ? cell[i] + 1 : cell[i]);
+            tMax[i] = (boundary - origin[i]) / direction[i];
+            tDelta[i] = this.cellSize[i] / Math.abs(direction[i]);
+        }
+
+        // Outside of the bounds the ray stays in the same outer cell along an axis,
+        // so skip ahead to the step back into the bounds, or stop stepping if there is none.
+        const skipOutside = (i: number): void => {
+            if (dimensions === null) return;
+            const last = dimensions[i] - 1;
+            if ((cell[i] < 0 && step[i] < 0) || (cell[i] > last && step[i] > 0)) {
+                tMax[i] = Infinity;
+            } else if (cell[i] < -1) {
+                tMax[i] += (-1 - cell[i]) * tDelta[i];
+                cell[i] = -1;
+            } else if (cell[i] > last + 1) {
+                tMax[i] += (cell[i] - last - 1) * tDelta[i];
+                cell[i] = last + 1;
+            }
+        };
+        for (let i = 0; i < this.axes; i++) skipOutside(i);
 
-        const i1 = this.getCellIndex([x - w / 2, y - h / 2]);
-        const i2 = this.getCellIndex([x + w / 2, y + h / 2]);
+        const { storage, trace } = this;
+        const queryId = this.queryIds++;
+        const visited = [NaN, NaN, NaN];
+        let found = 0;
+
+        while (dimensions !== null || this.isCellInRange(cell[0], cell[1], cell[2])) {
+            // The clamped cell, i.e. the outer cell while the ray is outside of the bounds.
+            const x = dimensions ? math.clamp(cell[0], 0, dimensions[0] - 1) : cell[0];
+            const y = dimensions ? math.clamp(cell[1], 0, dimensions[1] - 1) : cell[1];
+            const z =
+                dimensions && this.axes === 3 ? math.clamp(cell[2], 0, dimensions[2] - 1) : cell[2];
+            const changed = x !== visited[0] || y !== visited[1] || z !== visited[2];
+            visited[0] = x;
+            visited[1] = y;
+            visited[2] = z;
+            let entry = changed ? storage.first(this.getCellKey(x, y, z)) : null;
+            if (changed) {
+                this.cellsVisited++;
+                if (trace !== null) trace.push(x, y, z);
+            }
+            while (entry !== null) {
+                const v = storage.client(entry);
+                entry = storage.next(entry);
+                if (v._queryId === queryId) continue;
+                v._queryId = queryId;
+                found++;
+                if (callback(v)) return found;
+            }
 
-        const clients: Client[] = [];
+            // All clients have been visited.
+            if (found === this.clientCount) return found;
+
+            // Step into the next cell along the axis with the closest boundary.
+            // A direction without any component in the grid, e.g. straight down on the XZ plane,
+            // never leaves the start cell.
+            let axis = tMax[0] < tMax[1] ? 0 : 1;
+            if (tMax[2] < tMax[axis]) axis = 2;
+            if (tMax[axis] === Infinity || tMax[axis] > tFar) return found;
+            cell[axis] += step[axis];
+            tMax[axis] += tDelta[axis];
+            skipOutside(axis);
+        }
+        return found;
+    }
+
+    /**
+     * Visit each pair of clients that share at least one cell.
+     *
+     * Each cell is walked once and each pair is reported exactly once,
+     * even if both clients span several cells.
+     * Pairs are only reported if each client is in a layer the other client collides with.
+     * See {@link Client.layers} and {@link Client.mask}.
+     * @param callback Called for each pair. Return `true` to stop.
+     * @param exact If `true`, only report pairs whose extents overlap.
+     * @param filter Only include clients that pass the filter.
+     */
+    public forEachPotentialPair(
+        callback: (a: Client<T, V>, b: Client<T, V>) => boolean | void,
+        exact = false,
+        filter?: QueryFilter<T, V>,
+    ): void {
+        const { storage } = this;
+        this.forEachCell((key, x, y, z) => {
+            for (let a = storage.first(key); a !== null; a = storage.next(a)) {
+                const clientA = storage.client(a);
+                for (let b = storage.next(a); b !== null; b = storage.next(b)) {
+                    const clientB = storage.client(b);
+                    const minA = clientA.cells.min!;
+                    const minB = clientB.cells.min!;
+                    // Only report the pair in the first cell they share.
+                    if (
+                        x !== Math.max(minA[0], minB[0]) ||
+                        y !== Math.max(minA[1], minB[1]) ||
+                        z !== Math.max(minA[2], minB[2])
+                    ) {
+                        continue;
+                    }
+                    if (
+                        (clientA.layers & clientB.mask) === 0 ||
+                        (clientB.layers & clientA.mask) === 0
+                    ) {
+                        continue;
+                    }
+                    if (
+                        exact &&
+                        !math.boxIntersectsBox(
+                            clientA.position,
+                            clientA.dimensions,
+                            clientB.position,
+                            clientB.dimensions,
+                        )
+                    ) {
+                        continue;
+                    }
+                    if (!this.matchesFilter(clientA, filter)) continue;
+                    if (!this.matchesFilter(clientB, filter)) continue;
+                    if (callback(clientA, clientB)) return true;
+                }
+            }
+        });
+    }
+
+    /**
+     * Get each pair of clients that overlap.
+     * See {@link SpatialHashGrid.forEachPotentialPair}.
+     * @param exact If `false`, also return pairs that only share a cell.
+     * @param filter Only include clients that pass the filter.
+     * @returns
+     */
+    public getCollisionPairs(exact = true, filter?: QueryFilter<T, V>): ClientPair<T, V>[] {
+        const pairs: ClientPair<T, V>[] = [];
+        this.forEachPotentialPair(
+            (a, b) => {
+                pairs.push([a, b]);
+            },
+            exact,
+            filter,
+        );
+        return pairs;
+    }
+
+    /**
+     * Visit each occupied cell.
+     * @param callback Called with the key and the index of the cell. Return `true` to stop.
+     */
+    private forEachCell(
+        callback: (key: number, x: number, y: number, z: number) => boolean | void,
+    ): void {
+        if (this.infinite) {
+            this.storage.forEachCell((key) => {
+                // Unpack the cell index, see `getCellKey`.
+                if (this.axes === 2) {
+                    const y = key % SPARSE_SPAN_2D;
+                    const x = (key - y) / SPARSE_SPAN_2D;
+                    return callback(key, x - SPARSE_OFFSET_2D, y - SPARSE_OFFSET_2D, 0);
+                }
+                const z = key % SPARSE_SPAN_3D;
+                const xy = (key - z) / SPARSE_SPAN_3D;
+                const y = xy % SPARSE_SPAN_3D;
+                const x = (xy - y) / SPARSE_SPAN_3D;
+                return callback(
+                    key,
+                    x - SPARSE_OFFSET_3D,
+                    y - SPARSE_OFFSET_3D,
+                    z - SPARSE_OFFSET_3D,
+                );
+            });
+            return;
+        }
+
+        const [dx, dy] = this.dimensions as number[];
+        this.storage.forEachCell((key) => {
+            // Unpack the cell index, see `getCellKey`.
+            const x = key % dx;
+            const yz = (key - x) / dx;
+            const y = yz % dy;
+            return callback(key, x, y, (yz - y) / dy);
+        });
+    }
+
+    /**
+     * Forget the cells of the previous query, see {@link SpatialHashGrid.traceQueries}.
+     * Batches trace the cells of all of their boxes.
+     */
+    private beginQuery(): void {
+        if (this.trace !== null) this.trace.length = 0;
+        this.cellsVisited = 0;
+        if (this.stats !== null) this.queryStart = performance.now();
+    }
+
+    /**
+     * Add the cost of the current query to the stats, see {@link SpatialHashGrid.collectStats}.
+     * @param clients Number of clients returned, or passed to the callback.
+     */
+    private endQuery(clients: number): void {
+        const { stats } = this;
+        if (stats === null) return;
+        _query.cells = this.cellsVisited;
+        _query.clients = clients;
+        _query.time = performance.now() - this.queryStart;
+        stats.queries++;
+        stats.cellsVisited += _query.cells;
+        stats.clientsReturned += clients;
+        stats.queryTime += _query.time;
+        if (this.onQuery !== null) this.onQuery(_query);
+    }
+
+    /**
+     * Check if a client passes a {@link QueryFilter}.
+     * @param client
+     * @param filter
+     * @returns `true` if there is no filter.
+     */
+    protected matchesFilter(client: Client<T, V>, filter: QueryFilter<T, V> | undefined): boolean {
+        if (filter === undefined) return true;
+        if (filter.mask !== undefined && (client.layers & filter.mask) === 0) return false;
+        return filter.predicate === undefined || filter.predicate(client);
+    }
+
+    /**
+     * Loop over the cells touched by a box and collect the clients.
+     * @param position Center of the box.
+     * @param bounds Size of the box.
+     * @param test Narrow-phase test. Pass `null` to collect every client in the touched cells.
+     * @param filter Only include clients that pass the filter.
+     * @returns
+     */
+    private search(
+        position: V,
+        bounds: V,
+        test: ((client: Client<T, V>) => boolean) | null,
+        filter: QueryFilter<T, V> | undefined,
+    ): Client<T, V>[] {
+        this.beginQuery();
+        this.writeCellRange(position, bounds, _min, _max);
+        const clients: Client<T, V>[] = [];
+        this.collect(_min, _max, test, filter, clients, 0);
+        this.endQuery(clients.length);
+        return clients;
+    }
+
+    /**
+     * Collect the clients in a range of cells.
+     * @param i1 The min cell index.
+     * @param i2 The max cell index.
+     * @param test Narrow-phase test. Pass `null` to collect every client in the touched cells.
+     * @param filter Only include clients that pass the filter.
+     * @param out Target array.
+     * @param offset Index in `out` of the first client.
+     * @returns Index in `out` after the last client.
+     */
+    private collect(
+        i1: readonly number[],
+        i2: readonly number[],
+        test: ((client: Client<T, V>) => boolean) | null,
+        filter: QueryFilter<T, V> | undefined,
+        out: Client<T, V>[],
+        offset: number,
+    ): number {
+        const { storage, trace } = this;
 
         /**
          * Create a unique id.
@@ -218,19 +1904,26 @@ export default class SpatialHashGrid {
 
         for (let x = i1[0], xn = i2[0]; x <= xn; ++x) {
             for (let y = i1[1], yn = i2[1]; y <= yn; ++y) {
-                // Head node of the doubly-linked list.
-                let head = this.cells[x][y];
-                while (head) {
-                    const v = head.client;
-                    head = head.next!;
-                    // If true, then we have already dealt with this client.
-                    if (v._queryId === queryId) continue;
-                    v._queryId = queryId;
-                    clients.push(v);
+                for (let z = i1[2], zn = i2[2]; z <= zn; ++z) {
+                    this.cellsVisited++;
+                    if (trace !== null) trace.push(x, y, z);
+                    // First entry of the cell.
+                    let entry = storage.first(this.getCellKey(x, y, z));
+                    while (entry !== null) {
+                        const v = storage.client(entry);
+                        entry = storage.next(entry);
+                        // If true, then we have already dealt with this client.
+                        if (v._queryId === queryId) continue;
+                        v._queryId = queryId;
+                        // Narrow-phase.
+                        if (test && !test(v)) continue;
+                        if (!this.matchesFilter(v, filter)) continue;
+                        out[offset++] = v;
+                    }
                 }
             }
         }
-        return clients;
+        return offset;
     }
 
     /**
@@ -240,88 +1933,89 @@ export default class SpatialHashGrid {
      * If the client touches a cell, then insert the client into it.
      * @param client
      */
-    private insert(client: Client) {
-        // Destruct data.
-        const {
-            position: [x, y],
-            dimensions: [w, h],
-        } = client;
-
+    protected insert(client: Client<T, V>) {
+        this.checkCellRange(client.position, client.dimensions);
         // Calculate the min and max range of the cells.
-        const i1 = this.getCellIndex(
-            // Subtract half the width and hight
-            [x - w / 2, y - h / 2],
-        );
-        const i2 = this.getCellIndex(
-            // Add half the width and hight
-            [x + w / 2, y + h / 2],
-        );
-
-        // Track nodes of the doubly-linked list.
-        const nodes: Nodes = [];
+        // A client that is re-bucketed keeps its arrays, i.e. moving a client doesn't allocate.
+        const i1: CellIndex = client.cells.min ?? [0, 0, 0];
+        const i2: CellIndex = client.cells.max ?? [0, 0, 0];
+        this.writeCellRange(client.position, client.dimensions, i1, i2);
 
-        // Iterate in both dimension
-        for (let x = i1[0], xn = i2[0]; x <= xn; ++x) {
-            // Push an empty array. I.e. making two dimensional.
-            nodes.push([]);
-            for (let y = i1[1], yn = i2[1]; y <= yn; ++y) {
-                const xi = x - i1[0];
-                // Node in the doubly-linked list.
-                const head: Head = {
-                    next: null,
-                    prev: null,
-                    client,
-                };
-                nodes[xi].push(head);
-                head.next = this.cells[x][y];
-                if (this.cells[x][y]) {
-                    this.cells[x][y].prev = head;
-                }
-                this.cells[x][y] = head;
+        if (this.infinite) {
+            const [min, max] = this.occupied;
+            for (let i = 0; i < 3; i++) {
+                if (i1[i] < min[i]) min[i] = i1[i];
+                if (i2[i] > max[i]) max[i] = i2[i];
             }
         }
+
+        const [min, max] = this.reach;
+        for (let i = 0; i < this.axes; i++) {
+            const half = client.dimensions[i] / 2;
+            if (client.position[i] - half < min[i]) min[i] = client.position[i] - half;
+            if (client.position[i] + half > max[i]) max[i] = client.position[i] + half;
+        }
+
+        this.storage.insert(client, _keys, this.getCellKeys(i1, i2));
         client.cells.min = i1;
         client.cells.max = i2;
-        client.cells.nodes = nodes;
+        this.clientCount++;
     }
 
     /**
      * Remove client from the grid.
      * @param client
      */
-    protected remove(client: Client): void {
+    protected removeClient(client: Client<T, V>): void {
+        this.unlink(client);
+        client.cells.min = null;
+        client.cells.max = null;
+        if (this.stats !== null) this.stats.removes++;
+    }
+
+    /**
+     * Remove a client from its cells, without counting it as removed.
+     * The cell range is kept, so that {@link SpatialHashGrid.insert} can reuse its arrays.
+     * @param client
+     */
+    private unlink(client: Client<T, V>): void {
         const { cells } = client;
         if (cells === null) throw new Error('Client has no cells.');
-        const { min: i1, max: i2, nodes } = cells;
+        const { min: i1, max: i2 } = cells;
         if (i1 === null || i2 === null) throw new Error('Client has no min or max.');
-        if (nodes === null) throw new Error('Client has no nodes.');
 
-        for (let [_x] = i1, [xn] = i2; _x <= xn; ++_x) {
-            // eslint-disable-next-line prefer-destructuring
-            for (let y = i1[1], yn = i2[1]; y <= yn; ++y) {
-                const xi = _x - i1[0];
-                const yi = y - i1[1];
-
-                // Reference to the doubly-linked list list node.
-                const node = nodes[xi][yi];
+        this.storage.remove(client, _keys, this.getCellKeys(i1, i2));
+        this.clientCount--;
+    }
 
-                // Just swap the nodes.
-                if (node.next) {
-                    node.next.prev = node.prev;
-                }
-                // Just swap the nodes.
-                if (node.prev) {
-                    node.prev.next = node.next;
-                }
+    /**
+     * Get the number of cells a client touches.
+     * @param client
+     * @returns `0` if the client is not in the grid.
+     */
+    private getClientCellCount(client: Client<T, V>): number {
+        const { min, max } = client.cells;
+        if (min === null || max === null) return 0;
+        return (max[0] - min[0] + 1) * (max[1] - min[1] + 1) * (max[2] - min[2] + 1);
+    }
 
-                // If you delete the head node, simply point to the next node.
-                if (!node.prev) {
-                    this.cells[_x][y] = node.next!;
+    /**
+     * Write the keys of the cells in a range to {@link _keys}.
+     * The keys are always in the same order, i.e. a client is removed with the keys it was inserted with.
+     * @param i1 The min cell index.
+     * @param i2 The max cell index.
+     * @returns Number of keys.
+     */
+    private getCellKeys(i1: CellIndex, i2: CellIndex): number {
+        let count = 0;
+        // Iterate in all dimensions
+        for (let x = i1[0], xn = i2[0]; x <= xn; ++x) {
+            for (let y = i1[1], yn = i2[1]; y <= yn; ++y) {
+                for (let z = i1[2], zn = i2[2]; z <= zn; ++z) {
+                    _keys[count++] = this.getCellKey(x, y, z);
                 }
             }
         }
-        client.cells.min = null;
-        client.cells.max = null;
-        client.cells.nodes = null;
+        return count;
     }
 }
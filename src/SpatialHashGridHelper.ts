@@ -0,0 +1,305 @@
+import * as THREE from 'three';
+import type ThreeSpatialHashGrid from './ThreeSpatialHashGrid';
+import { GridHelper } from './GridHelper';
+import { Client, SpatialHashGridHelperOptions, Vector, Vector2 } from './types';
+
+const _box = /* @__PURE__ */ new THREE.Box3();
+const _center = /* @__PURE__ */ new THREE.Vector3();
+const _size = /* @__PURE__ */ new THREE.Vector3();
+const _quaternion = /* @__PURE__ */ new THREE.Quaternion();
+const _matrix = /* @__PURE__ */ new THREE.Matrix4();
+const _color = /* @__PURE__ */ new THREE.Color();
+
+/**
+ * Number of cells drawn along each axis of an infinite grid, centered around the origin.
+ */
+const DEBUG_SIZE = 100;
+
+/**
+ * The 12 edges of a box as pairs of corners.
+ * Bit `0`, `1` and `2` of a corner pick the max instead of the min along X, Y and Z.
+ */
+const EDGES = [0, 1, 2, 3, 4, 5, 6, 7, 0, 2, 1, 3, 4, 6, 5, 7, 0, 4, 1, 5, 2, 6, 3, 7];
+
+/**
+ * Displays the state of a {@link ThreeSpatialHashGrid}:
+ * the cells aligned to the bounds, a heatmap of the number of clients per cell,
+ * the cells touched by the last query and the box of each client.
+ *
+ * Call {@link SpatialHashGridHelper.update} after the grid or the queries change, e.g. once per frame.
+ *
+ * ```ts
+ * const helper = new SpatialHashGridHelper(grid, { heatmap: true, queries: true });
+ * scene.add(helper);
+ *
+ * grid.update();
+ * grid.queryBox(box);
+ * helper.update();
+ * ```
+ */
+export default class SpatialHashGridHelper<
+    T extends THREE.Object3D = THREE.Object3D,
+    V extends Vector = Vector2,
+> extends THREE.Group {
+    public readonly grid: ThreeSpatialHashGrid<T, V>;
+
+    /**
+     * See {@link SpatialHashGridHelperOptions.lines}.
+     */
+    public lines: boolean;
+
+    /**
+     * See {@link SpatialHashGridHelperOptions.heatmap}.
+     */
+    public heatmap: boolean;
+
+    /**
+     * See {@link SpatialHashGridHelperOptions.queries}.
+     */
+    public queries: boolean;
+
+    /**
+     * See {@link SpatialHashGridHelperOptions.clients}.
+     */
+    public clients: boolean;
+
+    /**
+     * Lines of the cells. Redrawn when the bounds or the cell size change.
+     */
+    private readonly gridHelper = new GridHelper();
+
+    /**
+     * The bounds, dimensions and cell size that the lines were drawn for.
+     */
+    private drawn = '';
+
+    private readonly cellGeometry = new THREE.BoxGeometry();
+
+    private readonly heatmapMaterial = new THREE.MeshBasicMaterial({
+        transparent: true,
+        opacity: 0.35,
+        depthWrite: false,
+        toneMapped: false,
+    });
+
+    /**
+     * One instance per occupied cell. Re-created when there are more cells than instances.
+     */
+    private heatmapMesh: THREE.InstancedMesh;
+
+    private readonly queryLines: THREE.LineSegments;
+
+    private readonly clientLines: THREE.LineSegments;
+
+    /**
+     * Index and number of clients of each occupied cell, i.e. `[x0, y0, z0, count0, ...]`.
+     */
+    private readonly cells: number[] = [];
+
+    /**
+     * Create a `SpatialHashGridHelper` object.
+     * @param grid
+     * @param options See {@link SpatialHashGridHelperOptions}.
+     */
+    constructor(grid: ThreeSpatialHashGrid<T, V>, options: SpatialHashGridHelperOptions = {}) {
+        super();
+        const { lines = true, heatmap = false, queries = false, clients = false } = options;
+        this.grid = grid;
+        this.lines = lines;
+        this.heatmap = heatmap;
+        this.queries = queries;
+        this.clients = clients;
+
+        this.heatmapMesh = this.createHeatmap(64);
+        this.queryLines = this.createLines(0xffff00);
+        this.clientLines = this.createLines(0x00ff00);
+        this.add(this.gridHelper, this.heatmapMesh, this.queryLines, this.clientLines);
+        this.update();
+    }
+
+    /**
+     * Redraw the grid.
+     */
+    public update(): void {
+        const { grid, cells } = this;
+        if (this.queries) grid.traceQueries();
+        this.updateGridLines();
+
+        cells.length = 0;
+        if (this.heatmap) grid.forEachOccupiedCell((x, y, z, count) => cells.push(x, y, z, count));
+        this.updateHeatmap();
+
+        const traced = this.queries ? grid.getTracedCells() : [];
+        this.updateOutlines(this.queryLines, traced.length / 3, (i, target) =>
+            grid.getCellBox(traced[i * 3], traced[i * 3 + 1], traced[i * 3 + 2], target),
+        );
+
+        const clients: readonly Client<T, V>[] = this.clients ? grid.clients : [];
+        this.updateOutlines(this.clientLines, clients.length, (i, target) =>
+            grid.getClientBox(clients[i], target),
+        );
+    }
+
+    /**
+     * Free the GPU resources of the helper. Stops tracing the queries of the grid.
+     */
+    public dispose(): void {
+        this.gridHelper.dispose();
+        this.heatmapMesh.dispose();
+        this.cellGeometry.dispose();
+        this.heatmapMaterial.dispose();
+        for (const lines of [this.queryLines, this.clientLines]) {
+            lines.geometry.dispose();
+            (lines.material as THREE.Material).dispose();
+        }
+        if (this.queries) this.grid.traceQueries(false);
+    }
+
+    /**
+     * Draw the lines of the cells, starting at the min of the bounds.
+     * 3D grids are drawn on the XZ plane at the bottom of the bounds.
+     */
+    private updateGridLines(): void {
+        const { grid, gridHelper } = this;
+        const bounds = grid.getBounds() as number[][] | null;
+        const dimensions = grid.getDimensions() as number[] | null;
+        const cellSize = grid.getCellSize() as number[];
+        gridHelper.visible = this.lines;
+        const drawn = JSON.stringify([bounds, dimensions, cellSize]);
+        if (!this.lines || drawn === this.drawn) return;
+        this.drawn = drawn;
+
+        // The second axis that is drawn, i.e. Z of a 3D grid.
+        const j = cellSize.length === 3 ? 2 : 1;
+        const cellsX = dimensions ? dimensions[0] : DEBUG_SIZE;
+        const cellsY = dimensions ? dimensions[j] : DEBUG_SIZE;
+        const minX = bounds ? bounds[0][0] : (-DEBUG_SIZE / 2) * cellSize[0];
+        const minY = bounds ? bounds[0][j] : (-DEBUG_SIZE / 2) * cellSize[j];
+        const plane = cellSize.length === 3 ? 'xz' : grid.plane;
+
+        gridHelper.update(cellsX * cellSize[0], cellsY * cellSize[j], {
+            spacingX: cellSize[0],
+            spacingY: cellSize[j],
+            plane,
+            centered: false,
+            elevation: 0.1,
+        });
+        if (plane === 'xy') {
+            gridHelper.position.set(minX, minY, 0);
+        } else if (plane === 'yz') {
+            gridHelper.position.set(0, minX, minY);
+        } else {
+            gridHelper.position.set(minX, bounds && cellSize.length === 3 ? bounds[0][1] : 0, minY);
+        }
+    }
+
+    /**
+     * Fill the occupied cells, from blue (one client) to red (the most clients).
+     */
+    private updateHeatmap(): void {
+        const { cells } = this;
+        const count = cells.length / 4;
+        let mesh = this.heatmapMesh;
+        if (count > mesh.instanceMatrix.count) {
+            this.remove(mesh);
+            mesh.dispose();
+            mesh = this.heatmapMesh = this.createHeatmap(
+                Math.max(count, mesh.instanceMatrix.count * 2),
+            );
+            this.add(mesh);
+        }
+
+        let max = 1;
+        for (let i = 0; i < count; i++) max = Math.max(max, cells[i * 4 + 3]);
+        for (let i = 0; i < count; i++) {
+            const box = this.grid.getCellBox(
+                cells[i * 4],
+                cells[i * 4 + 1],
+                cells[i * 4 + 2],
+                _box,
+            );
+            _matrix.compose(box.getCenter(_center), _quaternion, box.getSize(_size));
+            mesh.setMatrixAt(i, _matrix);
+            const ratio = max > 1 ? (cells[i * 4 + 3] - 1) / (max - 1) : 0;
+            mesh.setColorAt(i, _color.setHSL((1 - ratio) * 0.66, 1, 0.5));
+        }
+
+        mesh.count = count;
+        mesh.visible = count > 0;
+        mesh.instanceMatrix.needsUpdate = true;
+        if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    }
+
+    /**
+     * Create the mesh of the heatmap.
+     * @param capacity Max number of cells.
+     * @returns
+     */
+    private createHeatmap(capacity: number): THREE.InstancedMesh {
+        const mesh = new THREE.InstancedMesh(this.cellGeometry, this.heatmapMaterial, capacity);
+        mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        mesh.count = 0;
+        // The bounding sphere is not updated with the instances.
+        mesh.frustumCulled = false;
+        return mesh;
+    }
+
+    /**
+     * Create the lines of a set of box outlines.
+     * @param color
+     * @returns
+     */
+    private createLines(color: number): THREE.LineSegments {
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(0), 3));
+        const lines = new THREE.LineSegments(
+            geometry,
+            new THREE.LineBasicMaterial({ color, toneMapped: false }),
+        );
+        lines.frustumCulled = false;
+        return lines;
+    }
+
+    /**
+     * Outline a set of boxes.
+     * @param lines
+     * @param count Number of boxes.
+     * @param getBox Write box `i` into `target`.
+     */
+    private updateOutlines(
+        lines: THREE.LineSegments,
+        count: number,
+        getBox: (i: number, target: THREE.Box3) => THREE.Box3,
+    ): void {
+        lines.visible = count > 0;
+        if (count === 0) return;
+
+        const length = count * EDGES.length * 3;
+        let attribute = lines.geometry.attributes.position as THREE.BufferAttribute;
+        if (attribute.array.length < length) {
+            // A new geometry frees the buffer of the smaller attribute.
+            lines.geometry.dispose();
+            lines.geometry = new THREE.BufferGeometry();
+            attribute = new THREE.BufferAttribute(
+                new Float32Array(Math.max(length, attribute.array.length * 2)),
+                3,
+            );
+            attribute.setUsage(THREE.DynamicDrawUsage);
+            lines.geometry.setAttribute('position', attribute);
+        }
+
+        const array = attribute.array as Float32Array;
+        let offset = 0;
+        for (let i = 0; i < count; i++) {
+            const { min, max } = getBox(i, _box);
+            for (let j = 0; j < EDGES.length; j++) {
+                const corner = EDGES[j];
+                array[offset++] = corner & 1 ? max.x : min.x;
+                array[offset++] = corner & 2 ? max.y : min.y;
+                array[offset++] = corner & 4 ? max.z : min.z;
+            }
+        }
+        attribute.needsUpdate = true;
+        lines.geometry.setDrawRange(0, count * EDGES.length);
+    }
+}
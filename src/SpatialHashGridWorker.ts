@@ -0,0 +1,263 @@
+import {
+    Bounds,
+    BatchQueryResult,
+    Client,
+    ClientBatchResult,
+    Dimensions,
+    QueryFilter,
+    Vector,
+    WorkerEndpoint,
+    WorkerMessage,
+    WorkerRequest,
+    WorkerResponse,
+    WorkerResult,
+} from './types';
+import SpatialHashGrid from './SpatialHashGrid';
+
+/**
+ * The grid inside of the worker. The data of each client is its id.
+ * Makes the protected API of the grid available to the worker.
+ */
+class WorkerGrid extends SpatialHashGrid<number, Vector> {
+    public newClient(
+        position: Vector,
+        dimensions: Dimensions<Vector>,
+        data: number,
+    ): Client<number, Vector> {
+        return super.newClient(position, dimensions, data);
+    }
+
+    public removeClient(client: Client<number, Vector>): void {
+        super.removeClient(client);
+    }
+
+    public findNear(
+        position: Vector,
+        bounds: Vector,
+        filter?: QueryFilter<number, Vector>,
+    ): Client<number, Vector>[] {
+        return super.findNear(position, bounds, filter);
+    }
+
+    public findNearBatch(
+        positions: ArrayLike<number>,
+        bounds: ArrayLike<number>,
+        out?: ClientBatchResult<number, Vector>,
+        exact?: boolean,
+    ): ClientBatchResult<number, Vector> {
+        return super.findNearBatch(positions, bounds, out, exact);
+    }
+
+    public findInBox(
+        position: Vector,
+        bounds: Vector,
+        exact?: boolean,
+        filter?: QueryFilter<number, Vector>,
+    ): Client<number, Vector>[] {
+        return super.findInBox(position, bounds, exact, filter);
+    }
+}
+
+/**
+ * Hosts a {@link SpatialHashGrid} inside of a worker.
+ * The grid is created, updated and queried by a {@link WorkerSpatialHashGrid} on the main thread.
+ *
+ * ```ts
+ * // worker.ts
+ * import { SpatialHashGridWorker } from 'three-spatial-hash-grid';
+ *
+ * new SpatialHashGridWorker();
+ * ```
+ */
+export default class SpatialHashGridWorker {
+    private readonly endpoint: WorkerEndpoint;
+
+    private grid: WorkerGrid | null = null;
+
+    /**
+     * Number of axes of the grid.
+     */
+    private axes = 2;
+
+    /**
+     * Lookup from a client id to its client.
+     */
+    private readonly clients: (Client<number, Vector> | null)[] = [];
+
+    /**
+     * The positions and extents of the clients, shared with the main thread.
+     * `null` if the values are copied into each message.
+     */
+    private shared: Float64Array | null = null;
+
+    /**
+     * Output of the batch queries.
+     */
+    private readonly batch: ClientBatchResult<number, Vector> = {
+        clients: [],
+        offsets: new Int32Array(0),
+    };
+
+    /**
+     * Create a `SpatialHashGridWorker` object.
+     * @param endpoint Defaults to the global scope of the worker. See {@link nodeEndpoint} for `worker_threads`.
+     */
+    constructor(endpoint: WorkerEndpoint = self as unknown as WorkerEndpoint) {
+        this.endpoint = endpoint;
+        endpoint.addEventListener('message', this.onMessage);
+    }
+
+    /**
+     * Stop listening to the main thread.
+     */
+    public dispose(): void {
+        this.endpoint.removeEventListener('message', this.onMessage);
+        this.grid = null;
+        this.clients.length = 0;
+        this.shared = null;
+    }
+
+    /**
+     * Handle a request and reply with the result, or the error.
+     * The buffers of batch results are transferred.
+     */
+    private onMessage = ({ data }: { data: WorkerMessage }): void => {
+        // Ignore responses, e.g. if the endpoint also receives its own messages.
+        if (!('type' in data)) return;
+        const { request } = data;
+        try {
+            const result = this.handle(data);
+            const response: WorkerResponse = { request, result };
+            this.endpoint.postMessage(
+                response,
+                result !== null && typeof result === 'object' && 'offsets' in result
+                    ? [result.ids.buffer, result.offsets.buffer]
+                    : [],
+            );
+        } catch (error) {
+            const response: WorkerResponse = {
+                request,
+                error: error instanceof Error ? error.message : String(error),
+            };
+            this.endpoint.postMessage(response);
+        }
+    };
+
+    /**
+     * Handle a request.
+     * @param data
+     * @returns The result that is sent back to the main thread.
+     */
+    private handle(data: WorkerRequest): WorkerResult {
+        if (data.type === 'init') {
+            const { boundsOrCellSize, dimensions, options, buffer } = data;
+            this.grid =
+                dimensions === null
+                    ? new WorkerGrid(boundsOrCellSize as Vector, options)
+                    : new WorkerGrid(boundsOrCellSize as Bounds<Vector>, dimensions, options);
+            this.axes = dimensions === null ? boundsOrCellSize.length : dimensions.length;
+            this.clients.length = 0;
+            this.shared = buffer === null ? null : new Float64Array(buffer);
+            return null;
+        }
+        if (data.type === 'dispose') {
+            this.dispose();
+            return null;
+        }
+
+        const { grid } = this;
+        if (grid === null) throw new Error('The grid has not been created.');
+
+        switch (data.type) {
+            case 'buffer':
+                this.shared = new Float64Array(data.buffer);
+                return null;
+            case 'insert':
+            case 'update':
+                return this.write(grid, data.ids, data.values, data.type === 'insert');
+            case 'remove':
+                for (const id of data.ids) {
+                    const client = this.clients[id];
+                    if (!client) continue;
+                    grid.removeClient(client);
+                    this.clients[id] = null;
+                }
+                return null;
+            case 'findNear':
+                return grid.findNear(data.position, data.bounds).map((client) => client.data);
+            case 'findInBox':
+                return grid.findInBox(data.position, data.bounds).map((client) => client.data);
+            case 'findNearBatch':
+                return this.findNearBatch(grid, data.positions, data.bounds, data.exact);
+        }
+    }
+
+    /**
+     * Copy the positions and extents of clients into the grid.
+     * @param grid
+     * @param ids
+     * @param values Values of each client, in the order of `ids`. `null` to read the shared buffer.
+     * @param insert Create the clients.
+     * @returns Number of clients that were moved to other cells.
+     */
+    private write(
+        grid: WorkerGrid,
+        ids: Int32Array,
+        values: Float64Array | null,
+        insert: boolean,
+    ): number {
+        const { axes, clients } = this;
+        const source = values ?? this.shared;
+        if (source === null) throw new Error('No values were sent.');
+
+        let rebucketed = 0;
+        for (let i = 0; i < ids.length; i++) {
+            const id = ids[i];
+            // Packed values are stored in the order of the ids, shared values by id.
+            const offset = (values ? i : id) * axes * 2;
+            const client = clients[id];
+            if (insert) {
+                const position = Array.from(source.subarray(offset, offset + axes)) as Vector;
+                const dimensions = Array.from(
+                    source.subarray(offset + axes, offset + axes * 2),
+                ) as Vector;
+                if (client) grid.removeClient(client);
+                clients[id] = grid.newClient(position, dimensions, id);
+                continue;
+            }
+            // The client was removed after it was changed.
+            if (!client) continue;
+            for (let axis = 0; axis < axes; axis++) {
+                client.position[axis] = source[offset + axis];
+                client.dimensions[axis] = source[offset + axes + axis];
+            }
+            if (grid.updateClient(client)) rebucketed++;
+        }
+        return rebucketed;
+    }
+
+    /**
+     * Find the clients near each of many positions.
+     * @param grid
+     * @param positions Flat list of positions.
+     * @param bounds Size of each box, or a flat list of sizes.
+     * @param exact Skip the clients that do not overlap the box.
+     * @returns
+     */
+    private findNearBatch(
+        grid: WorkerGrid,
+        positions: Float32Array,
+        bounds: Float32Array | Vector,
+        exact: boolean,
+    ): BatchQueryResult {
+        const { batch } = this;
+        const count = positions.length / this.axes;
+        grid.findNearBatch(positions, bounds, batch, exact);
+
+        // The arrays are transferred to the main thread, i.e. they cannot be reused.
+        const ids = new Int32Array(batch.clients.length);
+        for (let i = 0; i < ids.length; i++) ids[i] = batch.clients[i].data;
+        batch.clients.length = 0;
+        return { ids, offsets: batch.offsets.slice(0, count + 1) };
+    }
+}
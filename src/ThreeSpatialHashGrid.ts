@@ -1,10 +1,48 @@
 import * as THREE from 'three';
-import { Bounds, Client, Dimensions, SpatialObject, Vector2 } from './types';
+import {
+    AdaptiveOptions,
+    AddOptions,
+    Bounds,
+    Client,
+    ClientBatchResult,
+    ClientJSON,
+    Dimensions,
+    FrustumQueryOptions,
+    NearestObject,
+    ObjectBatchResult,
+    Plane,
+    QueryFilter,
+    SpatialHashGridJSON,
+    SpatialObject,
+    ThreeSpatialHashGridOptions,
+    TrackedObject,
+    UpdateStats,
+    Vector,
+    Vector2,
+    WatchOptions,
+} from './types';
 import SpatialHashGrid from './SpatialHashGrid';
-import { GridHelper } from './GridHelper';
+import ProximityWatcher from './ProximityWatcher';
+import SpatialHashGridHelper from './SpatialHashGridHelper';
+import { decodeGrid } from './serialization';
 
 const _position = /* @__PURE__ */ new THREE.Vector3();
-let _client: Client; /* @__PURE__ */
+const _size = /* @__PURE__ */ new THREE.Vector3();
+const _corner = /* @__PURE__ */ new THREE.Vector3();
+const _box = /* @__PURE__ */ new THREE.Box3();
+const _matrix = /* @__PURE__ */ new THREE.Matrix4();
+const _mesh = /* @__PURE__ */ new THREE.Mesh();
+const _instanceIntersects: THREE.Intersection[] = [];
+const _seen = /* @__PURE__ */ new Set<THREE.Object3D>();
+const _raycaster = /* @__PURE__ */ new THREE.Raycaster();
+const _vector: number[] = /* @__PURE__ */ [0, 0, 0];
+const _frustum = /* @__PURE__ */ new THREE.Frustum();
+const _cellBox = /* @__PURE__ */ new THREE.Box3();
+const _instanceBox = /* @__PURE__ */ new THREE.Box3();
+const _region = /* @__PURE__ */ new THREE.Box3();
+const _sphere = /* @__PURE__ */ new THREE.Sphere();
+const _lower: number[] = /* @__PURE__ */ [0, 0, 0];
+const _upper: number[] = /* @__PURE__ */ [0, 0, 0];
 
 /**
  * A spatial hash is a 2 or 3 dimensional extension of the hash table.
@@ -12,119 +50,1560 @@ let _client: Client; /* @__PURE__ */
  * run it through some function (the 'hash function') to produce a new value (the 'hash'),
  * and then use the hash as an index into a set of slots ('cells').
  *
+ * Pass `[x, y]` bounds and dimensions for a 2D grid projected onto {@link ThreeSpatialHashGrid.plane},
+ * or `[x, y, z]` bounds and dimensions for a 3D grid.
+ *
+ * @typeParam T Type of the objects in the grid.
+ * @typeParam V {@link Vector2} for a 2D grid, {@link Vector3} for a 3D grid.
+ *
  * @author André Wisén
  * @copyright MIT
  */
-export default class ThreeSpatialHashGrid extends SpatialHashGrid {
+export default class ThreeSpatialHashGrid<
+    T extends THREE.Object3D = THREE.Object3D,
+    V extends Vector = Vector2,
+> extends SpatialHashGrid<T, V> {
     /**
-     * {@link Client | Clients} in the grid.
+     * {@link Client | Clients} in the grid, in no particular order.
      */
-    public readonly clients: Client[];
+    public readonly clients: Client<T, V>[];
 
     /**
      * Add the group to the scene if you want to display debug information.
      */
     public readonly group: THREE.Group;
 
+    /**
+     * The plane a 2D grid is projected onto. Not used by 3D grids.
+     */
+    public readonly plane: Plane;
+
+    /**
+     * Displays the grid in {@link ThreeSpatialHashGrid.group}, see {@link ThreeSpatialHashGridOptions.debug}.
+     * `null` if debugging is disabled.
+     */
+    public readonly helper: SpatialHashGridHelper<T, V> | null;
+
+    /**
+     * Lookup from an object to its {@link Client | Clients}.
+     * Instanced meshes and point clouds can have one client per instance/point.
+     */
+    private readonly objects: Map<THREE.Object3D, TrackedObject<T, V>>;
+
+    /**
+     * Lookup from a client to its position in {@link ThreeSpatialHashGrid.clients}.
+     */
+    private readonly slots = new Map<Client<T, V>, number>();
+
+    /**
+     * Unregister objects when they are removed from their parent or disposed.
+     */
+    private readonly autoRemove: boolean;
+
+    /**
+     * Only re-measure objects that have changed.
+     */
+    private readonly trackChanges: boolean;
+
+    /**
+     * Grow the bounds to cover newly added objects.
+     */
+    private readonly autoFit: boolean;
+
+    /**
+     * Thresholds of the adaptive mode, or `null` if disabled.
+     */
+    private readonly adaptive: AdaptiveOptions | null;
+
+    /**
+     * See {@link ThreeSpatialHashGridOptions.identifier}.
+     */
+    private readonly identifier: string;
+
+    /**
+     * Number of updates since the distribution was last checked.
+     */
+    private updatesSinceAdapt = 0;
+
+    /**
+     * The min and max along the up axis that has ever been covered by an object.
+     * Limits the height of the cells of a 2D grid, see {@link ThreeSpatialHashGrid.queryFrustum}.
+     */
+    private height: [number, number] = [Infinity, -Infinity];
+
+    /**
+     * See {@link ThreeSpatialHashGrid.watch}.
+     */
+    private readonly watchers = new Set<ProximityWatcher<T, V>>();
+
+    /**
+     * `true` if every watcher has to be updated, e.g. because the grid was rebuilt.
+     */
+    private watchersDirty = false;
+
+    /**
+     * Keys of the cells that objects were added to, removed from or moved in
+     * since the watchers were last updated. Only collected while there are watchers.
+     */
+    private readonly dirtyCells = new Set<number>();
+
+    /**
+     * Add a key to {@link ThreeSpatialHashGrid.dirtyCells}.
+     */
+    private readonly markCell = (key: number): void => {
+        this.dirtyCells.add(key);
+    };
+
+    /**
+     * Projected positions of the last batch query. Grows when needed.
+     */
+    private batchPositions = new Float64Array(0);
+
+    /**
+     * Clients of the last batch query.
+     */
+    private readonly batch: ClientBatchResult<T, V> = { clients: [], offsets: new Int32Array(0) };
+
+    /**
+     * Filter of the last query that was filtered by `THREE.Layers`, see {@link ThreeSpatialHashGrid.toFilter}.
+     */
+    private readonly layerFilter: QueryFilter<T, V> = {};
+
+    /**
+     * Clients of the last lookup of {@link ThreeSpatialHashGrid.getNearbyObjectsInto}.
+     */
+    private readonly nearby: Client<T, V>[] = [];
+
+    /**
+     * Callback of the current {@link ThreeSpatialHashGrid.forEachNearbyObject}.
+     */
+    private nearbyCallback: ((object: T) => boolean | void) | null = null;
+
     /**
      * Create a `SpatialHashGrid` object using a fixed sized grid.
      * @param bounds The min/max the grid will operate on. I.e. if the world goes from `-1000, -1000` to `1000, 1000`, then this should be `[-1000, -1000], [1000, 1000]`.
      * @param dimensions How **many** cells along each dimensional axis. I.e. if the world is 100 units wide and we have 5 cells, then each cell will span `100/5=20 units`.
+     * @param options Either the `debug` flag or a {@link ThreeSpatialHashGridOptions} object.
+     */
+    constructor(
+        bounds: Bounds<V>,
+        dimensions: Dimensions<V>,
+        options?: boolean | ThreeSpatialHashGridOptions,
+    );
+    /**
+     * Create an infinite `SpatialHashGrid` object.
+     * Cells are created and freed on demand, so the world can grow in any direction.
+     * @param cellSize The size of a single cell along each dimensional axis.
+     * @param options Either the `debug` flag or a {@link ThreeSpatialHashGridOptions} object.
      */
-    constructor(bounds: Bounds, dimensions: Dimensions, debug: boolean = false) {
-        super(bounds, dimensions);
+    constructor(cellSize: V, options?: boolean | ThreeSpatialHashGridOptions);
+    constructor(
+        boundsOrCellSize: Bounds<V> | V,
+        dimensionsOrOptions?: Dimensions<V> | boolean | ThreeSpatialHashGridOptions,
+        options: boolean | ThreeSpatialHashGridOptions = {},
+    ) {
+        const infinite = !Array.isArray(boundsOrCellSize[0]);
+        if (infinite) {
+            options = (dimensionsOrOptions as boolean | ThreeSpatialHashGridOptions) ?? {};
+        }
+        if (typeof options === 'boolean') options = { debug: options };
+        super(
+            boundsOrCellSize as Bounds<V>,
+            (infinite ? options : dimensionsOrOptions) as Dimensions<V>,
+            options,
+        );
+
+        const {
+            debug = false,
+            plane = 'xz',
+            autoRemove = true,
+            trackChanges = false,
+            autoFit = false,
+            adaptive = false,
+            identifier = 'uuid',
+        } = options;
         this.clients = [];
+        this.objects = new Map();
+        this.autoRemove = autoRemove;
+        this.trackChanges = trackChanges;
+        this.autoFit = autoFit;
+        this.adaptive = adaptive === true ? {} : adaptive || null;
+        this.identifier = identifier;
         this.group = new THREE.Group();
-        if (debug) this.debug(bounds);
+        this.plane = plane;
+        this.helper = null;
+        if (debug) {
+            this.helper = new SpatialHashGridHelper(this, debug === true ? {} : debug);
+            this.group.add(this.helper);
+        }
     }
 
     /**
-     * Create a {@link THREE.GridHelper | GridHelper} to display the grid.
-     * @param bounds The min/max the grid will operate on. I.e. if the world goes from `-1000, -1000` to `1000, 1000`, then this should be `[-1000, -1000], [1000, 1000]`.
+     * Re-hash every client in place, e.g. after changing the cell size.
+     * The debug grid is redrawn to match the new bounds.
+     */
+    public rebuild(): void {
+        super.rebuild();
+        // The cell keys have changed.
+        this.watchersDirty = true;
+        this.helper?.update();
+    }
+
+    /**
+     * Convert a `THREE.Vector3` into a grid vector.
+     *
+     * 3D grids use all three components.
+     * 2D grids pick the two components of {@link ThreeSpatialHashGrid.plane}.
+     * @param vector
+     * @param target Optional target array.
+     * @returns
+     */
+    protected toVector(vector: THREE.Vector3, target?: V): V {
+        const out = (target ?? new Array(this.axes)) as number[];
+        if (this.axes === 3) {
+            out[0] = vector.x;
+            out[1] = vector.y;
+            out[2] = vector.z;
+            return out as V;
+        }
+        switch (this.plane) {
+            case 'xy':
+                out[0] = vector.x;
+                out[1] = vector.y;
+                break;
+            case 'yz':
+                out[0] = vector.y;
+                out[1] = vector.z;
+                break;
+            default:
+                out[0] = vector.x;
+                out[1] = vector.z;
+        }
+        return out as V;
+    }
+
+    /**
+     * Convert a grid space box into a world space box.
+     * 2D grids span the height of the objects along the up axis.
+     * @param min
+     * @param max
+     * @param target
+     * @returns
      */
-    private debug(bounds: Bounds) {
-        const x = bounds[1][0] - bounds[0][0];
-        const y = bounds[1][1] - bounds[0][1];
-        const gridHelper = new GridHelper(x, y);
+    private toBox(min: readonly number[], max: readonly number[], target: THREE.Box3): THREE.Box3 {
+        if (this.axes === 3) {
+            target.min.fromArray(min);
+            target.max.fromArray(max);
+            return target;
+        }
+        const [a, b] = this.plane === 'xy' ? [0, 1] : this.plane === 'yz' ? [1, 2] : [0, 2];
+        const up = 3 - a - b;
+        const [bottom, top] = this.height;
+        target.min.setComponent(a, min[0]).setComponent(b, min[1]).setComponent(up, bottom);
+        target.max.setComponent(a, max[0]).setComponent(b, max[1]).setComponent(up, top);
+        return target;
+    }
 
-        this.group.add(gridHelper);
+    /**
+     * Get the world space box of a cell, e.g. to display it.
+     * 2D grids span the height of the objects along the up axis, or none if the grid is empty.
+     * @param x
+     * @param y
+     * @param z `0` for 2D grids.
+     * @param target
+     * @returns `target`
+     */
+    public getCellBox(x: number, y: number, z: number, target: THREE.Box3): THREE.Box3 {
+        const bounds = this.getBounds() as number[][] | null;
+        const cellSize = this.getCellSize();
+        for (let i = 0; i < this.axes; i++) {
+            const origin = bounds ? bounds[0][i] : 0;
+            _lower[i] = origin + (i === 0 ? x : i === 1 ? y : z) * cellSize[i];
+            _upper[i] = _lower[i] + cellSize[i];
+        }
+        this.toBox(_lower, _upper, target);
+        if (this.axes === 2 && this.height[0] > this.height[1]) {
+            const up = this.plane === 'xy' ? 2 : this.plane === 'yz' ? 0 : 1;
+            target.min.setComponent(up, 0);
+            target.max.setComponent(up, 0);
+        }
+        return target;
+    }
+
+    /**
+     * Get the world space box of a client, e.g. to display it.
+     * 2D grids span the height of the objects along the up axis.
+     * @param client
+     * @param target
+     * @returns `target`
+     */
+    public getClientBox(client: Client<T, V>, target: THREE.Box3): THREE.Box3 {
+        const { position, dimensions } = client;
+        for (let i = 0; i < this.axes; i++) {
+            _lower[i] = position[i] - dimensions[i] / 2;
+            _upper[i] = position[i] + dimensions[i] / 2;
+        }
+        return this.toBox(_lower, _upper, target);
+    }
+
+    /**
+     * Convert an optional `THREE.Layers` into a {@link QueryFilter}.
+     * @param filter
+     * @returns
+     */
+    private toFilter(filter?: THREE.Layers | QueryFilter<T, V>): QueryFilter<T, V> | undefined {
+        if (filter instanceof THREE.Layers) {
+            this.layerFilter.mask = filter.mask;
+            return this.layerFilter;
+        }
+        return filter;
     }
 
     /**
      * Add a `Model3D` to the spatial has grid.
+     *
+     * The client covers the world space bounding box of the object, including its children.
+     * I.e. groups and whole scenes (e.g. a loaded GLTF) can be added as a single object.
+     * The client is a member of the same layers as the object, see `THREE.Object3D.layers`.
+     *
+     * By default, each instance of a `THREE.InstancedMesh` is registered as its own client.
+     * The instances are the first `mesh.count` instances at the time of adding.
+     * Adding an object again registers it anew, e.g. after changing the number of instances.
+     *
+     * If {@link ThreeSpatialHashGridOptions.autoFit} is enabled, the bounds grow to cover the object.
      * @param object
+     * @param options See {@link AddOptions}.
      */
-    public add(object: SpatialObject): void {
-        // TODO: Switch to world position.
-        // object.getWorldPosition(_position);
-        _position.copy(object.position);
+    public add(object: T, options: AddOptions = {}): void {
+        const { instances = true, points = false, static: isStatic = false } = options;
+        const mesh = object as THREE.Object3D as THREE.InstancedMesh;
+        const cloud = object as THREE.Object3D as THREE.Points;
+        const clients: Client<T, V>[] = [];
+        if (this.objects.has(object)) this.remove(object);
 
-        const { _boundingBox } = object;
-        if (_boundingBox == null) {
-            object._boundingBox = this.calculateBoundingBox(object);
+        if (this.autoFit) {
+            // Cover the whole object, i.e. every instance or point, before adding any clients.
+            const box = this.calculateBoundingBox(object);
+            this.expandBounds(
+                this.toVector(box.getCenter(_position)),
+                this.toVector(box.getSize(_size)),
+            );
         }
 
-        const { min, max } = object._boundingBox!;
-        const client = this.newClient([_position.x, _position.z], [max.x - min.x, max.z - min.z], {
-            object,
+        if (instances && mesh.isInstancedMesh) {
+            for (let i = 0; i < mesh.count; i++) clients.push(this.addClient(object, i));
+        } else if (points && cloud.isPoints) {
+            const { count } = cloud.geometry.attributes.position;
+            for (let i = 0; i < count; i++) clients.push(this.addClient(object, i));
+        } else {
+            clients.push(this.addClient(object));
+        }
+
+        this.register(object, {
+            clients,
+            static: isStatic,
+            dirty: false,
+            matrixWorld: null,
+            version: 0,
+        });
+    }
+
+    /**
+     * Start tracking an object whose clients were created.
+     * @param object
+     * @param tracked
+     */
+    private register(object: T, tracked: TrackedObject<T, V>): void {
+        if (this.trackChanges) this.track(object, tracked);
+        this.objects.set(object, tracked);
+        for (let i = 0; i < tracked.clients.length; i++) this.markClient(tracked.clients[i]);
+        if (this.autoRemove) {
+            object.addEventListener('removed', this.onRemoved);
+            object.addEventListener('dispose', this.onDispose);
+        }
+    }
+
+    /**
+     * Remove an object from the grid.
+     * Removes all of its clients, i.e. every instance or point as well.
+     * @param object
+     * @returns `false` if the object is not in the grid.
+     */
+    public remove(object: T): boolean {
+        const tracked = this.objects.get(object);
+        if (tracked == null) return false;
+        const { clients } = tracked;
+
+        for (let i = 0; i < clients.length; i++) {
+            this.markClient(clients[i]);
+            this.removeClient(clients[i]);
+            this.popClient(clients[i]);
+        }
+
+        this.objects.delete(object);
+        object.removeEventListener('removed', this.onRemoved);
+        object.removeEventListener('dispose', this.onDispose);
+        return true;
+    }
+
+    /**
+     * Check if an object is in the grid.
+     * @param object
+     * @returns
+     */
+    public has(object: T): boolean {
+        return this.objects.has(object);
+    }
+
+    /**
+     * Get the client of an object.
+     * @param object
+     * @param index The instance or point, if they are registered one by one.
+     * @returns The client, or `undefined` if the object (or the instance/point) is not in the grid.
+     */
+    public getClient(object: T, index?: number): Client<T, V> | undefined {
+        const tracked = this.objects.get(object);
+        if (tracked == null) return undefined;
+        // Instances and points are registered in order.
+        const client = tracked.clients[index ?? 0];
+        return client?.index === index ? client : undefined;
+    }
+
+    /**
+     * Remove every object from the grid.
+     */
+    public clear(): void {
+        for (let i = 0; i < this.clients.length; i++) this.removeClient(this.clients[i]);
+        this.clients.length = 0;
+        this.slots.clear();
+        this.objects.forEach((_, object) => {
+            object.removeEventListener('removed', this.onRemoved);
+            object.removeEventListener('dispose', this.onDispose);
         });
+        this.objects.clear();
+        this.watchersDirty = true;
+        this.height = [Infinity, -Infinity];
+    }
+
+    /**
+     * Unregister an object that is removed from its parent.
+     * Wait until the current task is done, so that moving the object to another parent keeps it.
+     * @param event
+     */
+    private readonly onRemoved = (event: THREE.Event) => {
+        const object = event.target as T;
+        queueMicrotask(() => {
+            if (object.parent == null) this.remove(object);
+        });
+    };
+
+    /**
+     * Unregister an object that is disposed, e.g. `THREE.InstancedMesh.dispose`.
+     * @param event
+     */
+    private readonly onDispose = (event: THREE.Event) => {
+        this.remove(event.target as T);
+    };
+
+    /**
+     * Create a client for an object, or for a part of it.
+     * @param object
+     * @param index The instance or point, if any.
+     * @returns
+     */
+    private addClient(object: T, index?: number): Client<T, V> {
+        const box = this.calculateBoundingBox(object, index);
+        this.expandHeight(box);
+        box.getCenter(_position);
+        box.getSize(_size);
+
+        const client = this.newClient(
+            this.toVector(_position),
+            this.toVector(_size),
+            object,
+            object.layers.mask,
+        );
+        if (index !== undefined) client.index = index;
 
+        this.pushClient(client);
+        return client;
+    }
+
+    /**
+     * Append a client to {@link ThreeSpatialHashGrid.clients}.
+     * @param client
+     */
+    private pushClient(client: Client<T, V>): void {
+        this.slots.set(client, this.clients.length);
         this.clients.push(client);
     }
 
     /**
-     * Calculate the bounding box of the object.
+     * Take a client out of {@link ThreeSpatialHashGrid.clients}.
+     * The last client moves into its place.
+     * @param client
+     */
+    private popClient(client: Client<T, V>): void {
+        const slot = this.slots.get(client);
+        if (slot === undefined) return;
+        const last = this.clients.pop()!;
+        if (last !== client) {
+            this.clients[slot] = last;
+            this.slots.set(last, slot);
+        }
+        this.slots.delete(client);
+    }
+
+    /**
+     * Grow {@link ThreeSpatialHashGrid.height} to cover a box.
+     * @param box World space box.
+     */
+    private expandHeight(box: THREE.Box3): void {
+        if (this.axes === 3) return;
+        const up = this.plane === 'xy' ? 2 : this.plane === 'yz' ? 0 : 1;
+        const { height } = this;
+        height[0] = Math.min(height[0], box.min.getComponent(up));
+        height[1] = Math.max(height[1], box.max.getComponent(up));
+    }
+
+    /**
+     * Calculate the world space bounding box of the object, including its children.
+     * The result is stored in {@link SpatialObject._boundingBox}.
+     *
+     * If an index is given, calculate the bounding box of that instance or point instead.
+     * The result is only valid until the next call.
+     * @param object
+     * @param index The instance or point, if any.
+     */
+    private calculateBoundingBox(object: SpatialObject, index?: number): THREE.Box3 {
+        object.updateWorldMatrix(false, index === undefined);
+        if (index !== undefined) return this.calculateElementBox(object, index, _box);
+
+        const box = object._boundingBox ?? (object._boundingBox = new THREE.Box3());
+        box.makeEmpty();
+        object.traverse((child) => {
+            if (this.calculateObjectBox(child, _box)) box.union(_box);
+        });
+        if (box.isEmpty()) {
+            // Nothing to measure, e.g. an empty group. Use its world position.
+            _position.setFromMatrixPosition(object.matrixWorld);
+            box.set(_position, _position);
+        }
+        return box;
+    }
+
+    /**
+     * Calculate the world space bounding box of a single object, without its children.
+     * Same as `THREE.Box3.expandByObject`, except for sprites.
      * @param object
+     * @param target
+     * @returns `false` if the object has nothing to measure.
      */
-    private calculateBoundingBox(object: THREE.Object3D): THREE.Box3 {
-        const mesh = object as THREE.Mesh;
-        if (mesh.isMesh) {
-            const { geometry } = mesh;
-            geometry.computeBoundingBox();
-            const { boundingBox } = geometry;
+    private calculateObjectBox(object: THREE.Object3D, target: THREE.Box3): boolean {
+        const sprite = object as THREE.Sprite;
+        const mesh = object as THREE.InstancedMesh;
+
+        if (sprite.isSprite) {
+            // Sprites face the camera. Cover every possible rotation of the quad.
+            const { center } = sprite;
+            _size.setFromMatrixScale(object.matrixWorld);
+            const radius = Math.hypot(
+                Math.max(center.x, 1 - center.x) * _size.x,
+                Math.max(center.y, 1 - center.y) * _size.y,
+            );
+            _position.setFromMatrixPosition(object.matrixWorld);
+            _corner.setScalar(radius);
+            target.min.subVectors(_position, _corner);
+            target.max.addVectors(_position, _corner);
+            return true;
+        }
+
+        if (mesh.isInstancedMesh) {
+            // `computeBoundingBox` was added in three r151. Measure every instance before that.
+            if (typeof mesh.computeBoundingBox !== 'function') {
+                target.makeEmpty();
+                for (let i = 0; i < mesh.count; i++) {
+                    target.union(this.calculateElementBox(object, i, _instanceBox));
+                }
+                return !target.isEmpty();
+            }
+            if (mesh.boundingBox == null) mesh.computeBoundingBox();
+            const { boundingBox } = mesh;
             if (boundingBox == null) throw new Error('Failed to compute bounding box');
-            return boundingBox;
-        } else {
-            throw new Error('Not implemented');
+            target.copy(boundingBox).applyMatrix4(object.matrixWorld);
+            return true;
         }
+
+        // Meshes, lines and points.
+        const { geometry } = mesh;
+        if (geometry == null) return false;
+        target.copy(this.getGeometryBox(geometry)).applyMatrix4(object.matrixWorld);
+        return true;
+    }
+
+    /**
+     * Calculate the world space bounding box of an instance of a `THREE.InstancedMesh`,
+     * or of a point of a `THREE.Points`.
+     * @param object
+     * @param index
+     * @param target
+     * @returns
+     */
+    private calculateElementBox(
+        object: THREE.Object3D,
+        index: number,
+        target: THREE.Box3,
+    ): THREE.Box3 {
+        const mesh = object as THREE.InstancedMesh;
+        const { geometry } = mesh;
+
+        if (mesh.isInstancedMesh) {
+            mesh.getMatrixAt(index, _matrix);
+            _matrix.premultiply(object.matrixWorld);
+            return target.copy(this.getGeometryBox(geometry)).applyMatrix4(_matrix);
+        }
+
+        _position.fromBufferAttribute(geometry.attributes.position, index);
+        _position.applyMatrix4(object.matrixWorld);
+        return target.set(_position, _position);
+    }
+
+    /**
+     * Get the local bounding box of a geometry. Computed if needed.
+     * @param geometry
+     * @returns
+     */
+    private getGeometryBox(geometry: THREE.BufferGeometry): THREE.Box3 {
+        if (geometry.boundingBox == null) geometry.computeBoundingBox();
+        const { boundingBox } = geometry;
+        if (boundingBox == null) throw new Error('Failed to compute bounding box');
+        return boundingBox;
     }
 
     /**
      * Get nearby objects.
      * @param position World position of the lookup.
      * @param bounds Bounds of the lookup
-     * @returns Array of nearby clients (!). Not objects.
+     * @param filter Only include clients in these layers, or that pass the filter.
+     * @returns Array of nearby objects.
      */
-    public getNearbyObjects(position: THREE.Vector3, bounds: Vector2) {
-        return this.findNear([position.x, position.z], bounds);
+    public getNearbyObjects(
+        position: THREE.Vector3,
+        bounds: V,
+        filter?: THREE.Layers | QueryFilter<T, V>,
+    ): T[] {
+        return this.toObjects(
+            this.findNear(this.toVector(position), bounds, this.toFilter(filter)),
+        );
     }
 
     /**
-     * Update all clients.
+     * Get nearby objects, without allocating a new array.
+     * Same as {@link ThreeSpatialHashGrid.getNearbyObjects}.
+     * @param position World position of the lookup.
+     * @param bounds Bounds of the lookup
+     * @param out Target array. Cleared before the objects are added.
+     * @param filter Only include clients in these layers, or that pass the filter.
+     * @returns `out`
      */
-    public update() {
-        for (let i = 0; i < this.clients.length; i++) {
-            _client = this.clients[i];
-            // Update position. Assume world position.
-            _client.position = [
-                (_client.metadata.object as any).position.x,
-                (_client.metadata.object as any).position.y,
-            ];
-            // TODO: Update dimensions.
-            // _client.dimensions = _client.dimensions;
-            this.updateClient(_client);
+    public getNearbyObjectsInto(
+        position: THREE.Vector3,
+        bounds: V,
+        out: T[],
+        filter?: THREE.Layers | QueryFilter<T, V>,
+    ): T[] {
+        const { nearby } = this;
+        this.findNearInto(
+            this.toVector(position, _vector as V),
+            bounds,
+            nearby,
+            this.toFilter(filter),
+        );
+        out.length = 0;
+        for (let i = 0; i < nearby.length; i++) {
+            const client = nearby[i];
+            // Instances and points share their object. Only include it once.
+            if (client.index !== undefined) {
+                if (_seen.has(client.data)) continue;
+                _seen.add(client.data);
+            }
+            out.push(client.data);
         }
+        _seen.clear();
+        // Do not keep the clients alive.
+        nearby.length = 0;
+        return out;
+    }
+
+    /**
+     * Visit nearby objects, without allocating any arrays.
+     * Same objects as {@link ThreeSpatialHashGrid.getNearbyObjects}.
+     *
+     * Do not query the grid from the callback, since every query shares the same duplicate check.
+     * @param position World position of the lookup.
+     * @param bounds Bounds of the lookup
+     * @param callback Called for each object. Return `true` to stop.
+     * @param filter Only include clients in these layers, or that pass the filter.
+     * @returns `true` if the callback stopped the lookup.
+     */
+    public forEachNearbyObject(
+        position: THREE.Vector3,
+        bounds: V,
+        callback: (object: T) => boolean | void,
+        filter?: THREE.Layers | QueryFilter<T, V>,
+    ): boolean {
+        this.nearbyCallback = callback;
+        const stopped = this.forEachNear(
+            this.toVector(position, _vector as V),
+            bounds,
+            this.visitNearby,
+            this.toFilter(filter),
+        );
+        this.nearbyCallback = null;
+        _seen.clear();
+        return stopped;
+    }
+
+    /**
+     * Pass the object of a client to the callback of {@link ThreeSpatialHashGrid.forEachNearbyObject}.
+     * Created once, i.e. a lookup does not allocate a closure.
+     */
+    private readonly visitNearby = (client: Client<T, V>): boolean | void => {
+        // Instances and points share their object. Only include it once.
+        if (client.index !== undefined) {
+            if (_seen.has(client.data)) return false;
+            _seen.add(client.data);
+        }
+        return this.nearbyCallback!(client.data);
+    };
+
+    /**
+     * Get nearby objects for each of many world positions at once.
+     * Same as calling {@link ThreeSpatialHashGrid.getNearbyObjects} per position,
+     * but the results are written to a reusable output, i.e. no arrays are allocated per lookup.
+     * @param positions Flat list of world positions, i.e. `[x0, y0, z0, x1, y1, z1, ...]`.
+     * E.g. the array of a position attribute.
+     * @param bounds Bounds of every lookup, or a flat list with the bounds of each lookup.
+     * @param out Output of a previous batch to reuse.
+     * @param filter Only include clients in these layers, or that pass the filter.
+     * @returns `out`, or a new output.
+     */
+    public getNearbyObjectsBatch(
+        positions: ArrayLike<number>,
+        bounds: V | ArrayLike<number>,
+        out: ObjectBatchResult<T> = { objects: [], offsets: new Int32Array(0) },
+        filter?: THREE.Layers | QueryFilter<T, V>,
+    ): ObjectBatchResult<T> {
+        const { axes, batch } = this;
+        const count = Math.floor(positions.length / 3);
+        if (this.batchPositions.length < count * axes) {
+            this.batchPositions = new Float64Array(count * axes);
+        }
+
+        // Project the positions onto the grid.
+        const projected = this.batchPositions.subarray(0, count * axes);
+        for (let i = 0; i < count; i++) {
+            _position.fromArray(positions as number[], i * 3);
+            const vector = this.toVector(_position, _vector as V);
+            for (let axis = 0; axis < axes; axis++) projected[i * axes + axis] = vector[axis];
+        }
+        this.findNearBatch(projected, bounds, batch, false, this.toFilter(filter));
+
+        if (out.offsets.length < count + 1) {
+            out.offsets = new Int32Array(Math.max(count + 1, out.offsets.length * 2));
+        }
+        const { objects, offsets } = out;
+        let found = 0;
+        offsets[0] = 0;
+        for (let i = 0; i < count; i++) {
+            for (let j = batch.offsets[i], n = batch.offsets[i + 1]; j < n; j++) {
+                const client = batch.clients[j];
+                // Instances and points share their object. Only include it once per lookup.
+                if (client.index !== undefined) {
+                    if (_seen.has(client.data)) continue;
+                    _seen.add(client.data);
+                }
+                objects[found++] = client.data;
+            }
+            _seen.clear();
+            offsets[i + 1] = found;
+        }
+        objects.length = found;
+        // Do not keep the clients alive.
+        batch.clients.length = 0;
+        return out;
+    }
+
+    /**
+     * Get objects that overlap a box.
+     * @param box World space box of the lookup.
+     * @param exact If `false`, return every client in the touched cells. I.e. same as {@link ThreeSpatialHashGrid.getNearbyObjects}.
+     * @param filter Only include clients in these layers, or that pass the filter.
+     * @returns Array of objects whose extent overlaps the box.
+     */
+    public queryBox(box: THREE.Box3, exact = true, filter?: THREE.Layers | QueryFilter<T, V>): T[] {
+        box.getCenter(_position);
+        box.getSize(_size);
+        return this.toObjects(
+            this.findInBox(
+                this.toVector(_position),
+                this.toVector(_size),
+                exact,
+                this.toFilter(filter),
+            ),
+        );
+    }
+
+    /**
+     * Get objects that overlap a sphere.
+     * For 2D grids, the sphere is projected onto the plane. I.e. a circle.
+     * @param sphere World space sphere of the lookup.
+     * @param exact If `false`, return every client in the touched cells.
+     * @param filter Only include clients in these layers, or that pass the filter.
+     * @returns Array of objects whose extent overlaps the sphere.
+     */
+    public querySphere(
+        sphere: THREE.Sphere,
+        exact = true,
+        filter?: THREE.Layers | QueryFilter<T, V>,
+    ): T[] {
+        return this.toObjects(
+            this.findInRadius(
+                this.toVector(sphere.center),
+                sphere.radius,
+                exact,
+                this.toFilter(filter),
+            ),
+        );
+    }
+
+    /**
+     * Get objects that overlap a circle.
+     * Same as {@link ThreeSpatialHashGrid.querySphere}, but without the need of a `THREE.Sphere`.
+     * @param position World position of the lookup.
+     * @param radius Radius of the lookup.
+     * @param exact If `false`, return every client in the touched cells.
+     * @param filter Only include clients in these layers, or that pass the filter.
+     * @returns Array of objects whose extent overlaps the circle.
+     */
+    public queryCircle(
+        position: THREE.Vector3,
+        radius: number,
+        exact = true,
+        filter?: THREE.Layers | QueryFilter<T, V>,
+    ): T[] {
+        return this.toObjects(
+            this.findInRadius(this.toVector(position), radius, exact, this.toFilter(filter)),
+        );
+    }
+
+    /**
+     * Get objects that contain a point.
+     * @param point World position of the lookup.
+     * @param exact If `false`, return every client in the touched cell.
+     * @param filter Only include clients in these layers, or that pass the filter.
+     * @returns Array of objects whose extent contains the point.
+     */
+    public queryPoint(
+        point: THREE.Vector3,
+        exact = true,
+        filter?: THREE.Layers | QueryFilter<T, V>,
+    ): T[] {
+        return this.toObjects(this.findAtPoint(this.toVector(point), exact, this.toFilter(filter)));
+    }
+
+    /**
+     * Get objects inside of a frustum, e.g. to cull them before rendering.
+     *
+     * The cells are tested against the planes of the frustum first,
+     * then the bounding box of each object in the cells that intersect it.
+     * @param cameraOrFrustum A camera, or a world space frustum.
+     * @param options See {@link FrustumQueryOptions}.
+     * @returns Array of objects that intersect the frustum.
+     */
+    public queryFrustum(
+        cameraOrFrustum: THREE.Camera | THREE.Frustum,
+        options: FrustumQueryOptions<T, V> = {},
+    ): T[] {
+        const { exact = true, cull = false, filter } = options;
+        let frustum: THREE.Frustum;
+        if (cameraOrFrustum instanceof THREE.Frustum) {
+            frustum = cameraOrFrustum;
+        } else {
+            // Same as the renderer, which updates the camera before each render.
+            cameraOrFrustum.updateWorldMatrix(true, false);
+            frustum = _frustum.setFromProjectionMatrix(
+                _matrix.multiplyMatrices(
+                    cameraOrFrustum.projectionMatrix,
+                    cameraOrFrustum.matrixWorldInverse,
+                ),
+            );
+        }
+
+        const objects = this.toObjects(
+            this.findInCells(
+                (min, max) => frustum.intersectsBox(this.toBox(min, max, _cellBox)),
+                exact
+                    ? (client) => {
+                          const object: SpatialObject = client.data;
+                          const box =
+                              client.index === undefined
+                                  ? object._boundingBox
+                                  : this.calculateElementBox(object, client.index, _box);
+                          return box === undefined || frustum.intersectsBox(box);
+                      }
+                    : null,
+                this.toFilter(filter),
+            ),
+        );
+
+        if (cull) {
+            const clientFilter = this.toFilter(filter);
+            this.objects.forEach(({ clients }, object) => {
+                // Objects that are excluded by the filter keep their visibility.
+                if (clients.some((client) => this.matchesFilter(client, clientFilter))) {
+                    object.visible = false;
+                }
+            });
+            for (const object of objects) object.visible = true;
+        }
+        return objects;
+    }
+
+    /**
+     * Map clients to their objects.
+     * @param clients
+     * @returns
+     */
+    private toObjects(clients: Client<T, V>[]): T[] {
+        const objects: T[] = [];
+        for (let i = 0; i < clients.length; i++) {
+            const client = clients[i];
+            // Instances and points share their object. Only include it once.
+            if (client.index !== undefined) {
+                if (_seen.has(client.data)) continue;
+                _seen.add(client.data);
+            }
+            objects.push(client.data);
+        }
+        _seen.clear();
+        return objects;
+    }
+
+    /**
+     * Get the `k` nearest objects.
+     *
+     * Instances and points that are registered one by one are found on their own,
+     * see {@link NearestObject.instanceId} and {@link NearestObject.index}.
+     * @param position World position of the lookup.
+     * @param k Max number of objects to find.
+     * @param maxDistance Ignore objects further away than this.
+     * @param filter Only include clients in these layers, or that pass the filter.
+     * @returns Objects and their distances, closest first.
+     */
+    public getNearestObjects(
+        position: THREE.Vector3,
+        k = 1,
+        maxDistance = Infinity,
+        filter?: THREE.Layers | QueryFilter<T, V>,
+    ): NearestObject<T>[] {
+        return this.findNearest(this.toVector(position), k, maxDistance, this.toFilter(filter)).map(
+            ({ client, distance }) => {
+                const nearest: NearestObject<T> = { object: client.data, distance };
+                if (client.index !== undefined) {
+                    if ((client.data as THREE.Object3D as THREE.InstancedMesh).isInstancedMesh) {
+                        nearest.instanceId = client.index;
+                    } else {
+                        nearest.index = client.index;
+                    }
+                }
+                return nearest;
+            },
+        );
+    }
+
+    /**
+     * Get the nearest object.
+     * @param position World position of the lookup.
+     * @param maxDistance Ignore objects further away than this.
+     * @param filter Only include clients in these layers, or that pass the filter.
+     * @returns The object and its distance, or `null` if nothing was found.
+     */
+    public getNearestObject(
+        position: THREE.Vector3,
+        maxDistance = Infinity,
+        filter?: THREE.Layers | QueryFilter<T, V>,
+    ): NearestObject<T> | null {
+        return this.getNearestObjects(position, 1, maxDistance, filter)[0] ?? null;
+    }
+
+    /**
+     * Cast a ray through the grid.
+     *
+     * Only the objects in the cells along the ray are tested, using their own `raycast` method.
+     * I.e. the world matrices of the objects are expected to be up to date.
+     * Children of the objects are tested as well.
+     * Instances and points that are registered one by one are tested on their own.
+     *
+     * Lines and points are hit within a threshold of the ray, see `THREE.Raycaster.params`.
+     * Hits in cells next to the ones along the ray are not found.
+     *
+     * Sprites need a camera and are skipped.
+     * Use {@link ThreeSpatialHashGrid.attachRaycaster} on a raycaster with a camera instead.
+     * @param ray World space ray. The direction is expected to be normalized.
+     * @param far Max distance along the ray.
+     * @param intersects Optional target array.
+     * @param filter Only test objects in these layers, or that pass the filter.
+     * @returns Intersections, closest first.
+     */
+    public raycast(
+        ray: THREE.Ray,
+        far = Infinity,
+        intersects: THREE.Intersection[] = [],
+        filter?: THREE.Layers | QueryFilter<T, V>,
+    ): THREE.Intersection[] {
+        _raycaster.ray.copy(ray);
+        _raycaster.near = 0;
+        _raycaster.far = far;
+        // Layers are handled by the filter instead.
+        _raycaster.layers.enableAll();
+        return this.intersect(_raycaster, null, intersects, this.toFilter(filter));
+    }
+
+    /**
+     * Make `raycaster.intersectObjects` go through {@link ThreeSpatialHashGrid.raycast}.
+     *
+     * Objects that are in the grid are only tested if they are in a cell along the ray.
+     * They are tested together with their children, regardless of `recursive`.
+     * All other objects are tested as usual.
+     * @param raycaster
+     */
+    public attachRaycaster(raycaster: THREE.Raycaster): void {
+        const { intersectObjects } = THREE.Raycaster.prototype;
+        raycaster.intersectObjects = <TIntersected extends THREE.Object3D>(
+            objects: THREE.Object3D[],
+            recursive = true,
+            intersects: THREE.Intersection<TIntersected>[] = [],
+        ) => {
+            const registered = new Set<THREE.Object3D>();
+            const others: THREE.Object3D[] = [];
+            for (let i = 0; i < objects.length; i++) {
+                if (this.objects.has(objects[i])) {
+                    registered.add(objects[i]);
+                } else {
+                    others.push(objects[i]);
+                }
+            }
+            if (registered.size > 0) {
+                this.intersect(
+                    raycaster,
+                    registered,
+                    intersects as THREE.Intersection[],
+                    undefined,
+                );
+            }
+            // Also sorts the intersections.
+            return intersectObjects.call(
+                raycaster,
+                others,
+                recursive,
+                intersects,
+            ) as THREE.Intersection<TIntersected>[];
+        };
+    }
+
+    /**
+     * Restore `raycaster.intersectObjects`.
+     * See {@link ThreeSpatialHashGrid.attachRaycaster}.
+     * @param raycaster
+     */
+    public detachRaycaster(raycaster: THREE.Raycaster): void {
+        Reflect.deleteProperty(raycaster, 'intersectObjects');
+    }
+
+    /**
+     * Walk the cells along the ray of the raycaster and test the objects.
+     * @param raycaster
+     * @param objects Only test these objects. Pass `null` to test every object.
+     * @param intersects Target array.
+     * @param filter Only test clients that pass the filter.
+     * @returns
+     */
+    private intersect(
+        raycaster: THREE.Raycaster,
+        objects: Set<THREE.Object3D> | null,
+        intersects: THREE.Intersection[],
+        filter: QueryFilter<T, V> | undefined,
+    ): THREE.Intersection[] {
+        const { ray, far } = raycaster;
+        this.traverseRay(this.toVector(ray.origin), this.toVector(ray.direction), far, (client) => {
+            const object = client.data;
+            if (objects && !objects.has(object)) return;
+            if (!this.matchesFilter(client, filter)) return;
+            if (client.index !== undefined) {
+                if (!object.layers.test(raycaster.layers)) return;
+                this.intersectElement(raycaster, object, client.index, intersects);
+                return;
+            }
+            object.traverse((child) => {
+                if (!child.layers.test(raycaster.layers)) return;
+                // Sprites can't be tested without a camera.
+                if ((child as THREE.Sprite).isSprite && raycaster.camera == null) return;
+                child.raycast(raycaster, intersects);
+            });
+        });
+        return intersects.sort((a, b) => a.distance - b.distance);
+    }
+
+    /**
+     * Test a single instance of a `THREE.InstancedMesh`, or a single point of a `THREE.Points`.
+     * Same as their own `raycast` methods, but for one element only.
+     * @param raycaster
+     * @param object
+     * @param index
+     * @param intersects Target array.
+     */
+    private intersectElement(
+        raycaster: THREE.Raycaster,
+        object: THREE.Object3D,
+        index: number,
+        intersects: THREE.Intersection[],
+    ) {
+        const mesh = object as THREE.InstancedMesh;
+        const { ray, near, far } = raycaster;
+
+        if (mesh.isInstancedMesh) {
+            mesh.getMatrixAt(index, _matrix);
+            _mesh.geometry = mesh.geometry;
+            _mesh.material = mesh.material;
+            _mesh.matrixWorld.multiplyMatrices(object.matrixWorld, _matrix);
+            _mesh.raycast(raycaster, _instanceIntersects);
+            for (let i = 0; i < _instanceIntersects.length; i++) {
+                const intersect = _instanceIntersects[i];
+                intersect.instanceId = index;
+                intersect.object = object;
+                intersects.push(intersect);
+            }
+            _instanceIntersects.length = 0;
+            return;
+        }
+
+        // The threshold is in world units.
+        const threshold = raycaster.params.Points?.threshold ?? 1;
+        _position.fromBufferAttribute(mesh.geometry.attributes.position, index);
+        _position.applyMatrix4(object.matrixWorld);
+        const distanceSq = ray.distanceSqToPoint(_position);
+        if (distanceSq > threshold * threshold) return;
+
+        const point = ray.closestPointToPoint(_position, new THREE.Vector3());
+        const distance = ray.origin.distanceTo(point);
+        if (distance < near || distance > far) return;
+        intersects.push({
+            distance,
+            distanceToRay: Math.sqrt(distanceSq),
+            point,
+            index,
+            face: null,
+            object,
+        });
+    }
+
+    /**
+     * Update the clients.
+     *
+     * The objects are re-measured in world space, i.e. moved, rotated and scaled objects
+     * (or objects with a transformed parent) end up in the right cells.
+     * The world matrices of the parents are expected to be up to date.
+     *
+     * Static objects are skipped, unless they are marked as dirty.
+     * When tracking changes, only the objects that have changed are re-measured.
+     *
+     * In adaptive mode, the grid is rebuilt with a better cell size when the clients are badly distributed.
+     * @returns The number of re-measured objects and re-bucketed clients.
+     */
+    public update(): UpdateStats {
+        const stats: UpdateStats = { updated: 0, rebucketed: 0, rebuilt: false };
+        this.objects.forEach((tracked, object) => {
+            if (!tracked.dirty) {
+                if (tracked.static) return;
+                if (this.trackChanges && !this.hasChanged(object, tracked)) return;
+            }
+            tracked.dirty = false;
+            stats.updated++;
+
+            const { clients } = tracked;
+            for (let i = 0; i < clients.length; i++) {
+                const client = clients[i];
+                // The client may leave its cells, or move in or out of a region within them.
+                this.markClient(client);
+                // Re-measure the object in world space.
+                const box = this.calculateBoundingBox(client.data, client.index);
+                this.expandHeight(box);
+                this.toVector(box.getCenter(_position), client.position);
+                this.toVector(box.getSize(_size), client.dimensions);
+                client.layers = client.data.layers.mask;
+                if (this.updateClient(client)) {
+                    stats.rebucketed++;
+                    this.markClient(client);
+                }
+            }
+            if (this.trackChanges) this.track(object, tracked);
+        });
+        this.updateWatchers();
+
+        const { adaptive } = this;
+        if (adaptive && ++this.updatesSinceAdapt >= (adaptive.interval ?? 60)) {
+            this.updatesSinceAdapt = 0;
+            stats.rebuilt = this.adapt(adaptive);
+        }
+        return stats;
+    }
+
+    /**
+     * Watch a region and get notified when objects enter, stay in or exit it.
+     * The events are dispatched by {@link ThreeSpatialHashGrid.update}.
+     *
+     * Only the cells that the region touches are checked, and only if objects were added to,
+     * removed from or moved in these cells, or the region itself changed.
+     * @param region A world space box or sphere, or an object whose bounding box is the region.
+     * @param options See {@link WatchOptions}.
+     * @returns The watcher. Listen to its `enter`, `exit` and `stay` events.
+     */
+    public watch(
+        region: THREE.Box3 | THREE.Sphere | T,
+        options: WatchOptions<T, V> = {},
+    ): ProximityWatcher<T, V> {
+        const watcher = new ProximityWatcher<T, V>(region, options);
+        this.watchers.add(watcher);
+        return watcher;
+    }
+
+    /**
+     * Stop watching a region. No `exit` events are dispatched.
+     * @param watcher
+     * @returns `false` if the region was not watched.
+     */
+    public unwatch(watcher: ProximityWatcher<T, V>): boolean {
+        return this.watchers.delete(watcher);
+    }
+
+    /**
+     * Mark the cells of a client as dirty, so that the watchers of these cells are updated.
+     * @param client
+     */
+    private markClient(client: Client<T, V>): void {
+        if (this.watchers.size > 0) this.forEachClientCellKey(client, this.markCell);
+    }
+
+    /**
+     * Check if a box touches any dirty cell.
+     * @param box World space box.
+     * @returns
+     */
+    private touchesDirtyCell(box: THREE.Box3): boolean {
+        const { dirtyCells } = this;
+        if (dirtyCells.size === 0) return false;
+        return this.forEachCellKeyInBox(
+            this.toVector(box.getCenter(_position), _lower as V),
+            this.toVector(box.getSize(_size), _upper as V),
+            (key) => dirtyCells.has(key),
+        );
+    }
+
+    /**
+     * Find the objects in the region of each watcher and dispatch the events.
+     */
+    private updateWatchers(): void {
+        const all = this.watchersDirty;
+        this.watchersDirty = false;
+
+        this.watchers.forEach((watcher) => {
+            const { region, box, margin, exact, filter } = watcher;
+
+            // Measure the region.
+            if (region instanceof THREE.Box3) {
+                _region.copy(region);
+            } else if (region instanceof THREE.Sphere) {
+                region.getBoundingBox(_region);
+            } else {
+                const tracked: SpatialObject = region;
+                if (this.objects.has(region) && tracked._boundingBox) {
+                    _region.copy(tracked._boundingBox);
+                } else {
+                    _region.setFromObject(region);
+                }
+            }
+            _region.expandByScalar(margin);
+
+            if (!all && _region.equals(box) && !this.touchesDirtyCell(_region)) {
+                watcher.update(null);
+                return;
+            }
+            box.copy(_region);
+
+            if (region instanceof THREE.Sphere) {
+                _sphere.copy(region).radius += margin;
+                watcher.update(this.querySphere(_sphere, exact, filter));
+                return;
+            }
+            const objects = this.queryBox(_region, exact, filter);
+            // An object does not overlap itself.
+            const index = objects.indexOf(region as T);
+            if (index !== -1) objects.splice(index, 1);
+            watcher.update(objects);
+        });
+        this.dirtyCells.clear();
+    }
+
+    /**
+     * Re-measure an object on the next update, even if it is static or hasn't moved.
+     * @param object
+     * @returns `false` if the object is not in the grid.
+     */
+    public markDirty(object: T): boolean {
+        const tracked = this.objects.get(object);
+        if (tracked == null) return false;
+        tracked.dirty = true;
+        return true;
+    }
+
+    /**
+     * Check if an object has moved since it was last measured.
+     * @param object
+     * @param tracked
+     * @returns
+     */
+    private hasChanged(object: THREE.Object3D, tracked: TrackedObject<T, V>): boolean {
+        object.updateWorldMatrix(false, false);
+        const { matrixWorld, version } = tracked;
+        if (matrixWorld == null || !matrixWorld.equals(object.matrixWorld)) return true;
+        return version !== this.getVersion(object);
+    }
+
+    /**
+     * Remember the current state of an object. See {@link ThreeSpatialHashGrid.hasChanged}.
+     * @param object
+     * @param tracked
+     */
+    private track(object: THREE.Object3D, tracked: TrackedObject<T, V>) {
+        const matrixWorld = tracked.matrixWorld ?? (tracked.matrixWorld = new THREE.Matrix4());
+        matrixWorld.copy(object.matrixWorld);
+        tracked.version = this.getVersion(object);
+    }
+
+    /**
+     * Get the version of the instance matrices of a `THREE.InstancedMesh`,
+     * or of the positions of any other geometry.
+     * @param object
+     * @returns
+     */
+    private getVersion(object: THREE.Object3D): number {
+        const mesh = object as THREE.InstancedMesh;
+        if (mesh.isInstancedMesh) return mesh.instanceMatrix.version;
+        const position = mesh.geometry?.attributes.position;
+        if (position == null) return 0;
+        return 'data' in position ? position.data.version : position.version;
+    }
+
+    /**
+     * Restore a grid serialized by {@link ThreeSpatialHashGrid.toJSON}.
+     *
+     * The clients are re-associated with the objects in `root`, including `root` itself,
+     * by {@link ThreeSpatialHashGridOptions.identifier}. The objects are not measured,
+     * i.e. they are expected to be where they were when the grid was serialized.
+     * Clients whose object is not found are skipped.
+     * @param json
+     * @param root The object that contains the objects of the grid, e.g. the scene.
+     * @param options See {@link ThreeSpatialHashGridOptions}.
+     * @returns
+     */
+    public static fromJSON<T extends THREE.Object3D = THREE.Object3D, V extends Vector = Vector2>(
+        json: SpatialHashGridJSON,
+        root: THREE.Object3D,
+        options?: ThreeSpatialHashGridOptions,
+    ): ThreeSpatialHashGrid<T, V>;
+    /**
+     * Restore a grid serialized by {@link ThreeSpatialHashGrid.toJSON},
+     * looking up the object of each client with a function, see {@link SpatialHashGrid.fromJSON}.
+     * @param json
+     * @param deserialize Get the object of a client from its identifier. Return `undefined` to skip the client.
+     * @param options See {@link ThreeSpatialHashGridOptions}.
+     */
+    public static fromJSON<T extends THREE.Object3D = THREE.Object3D, V extends Vector = Vector2>(
+        json: SpatialHashGridJSON,
+        deserialize: (client: ClientJSON) => T | undefined,
+        options?: ThreeSpatialHashGridOptions,
+    ): ThreeSpatialHashGrid<T, V>;
+    public static fromJSON<T extends THREE.Object3D = THREE.Object3D, V extends Vector = Vector2>(
+        json: SpatialHashGridJSON,
+        rootOrDeserialize: THREE.Object3D | ((client: ClientJSON) => T | undefined),
+        options?: ThreeSpatialHashGridOptions,
+    ): ThreeSpatialHashGrid<T, V> {
+        return ThreeSpatialHashGrid.create<T, V>(json, rootOrDeserialize, options);
+    }
+
+    /**
+     * Restore a grid serialized by {@link SpatialHashGrid.toBinary}.
+     * See {@link ThreeSpatialHashGrid.fromJSON}.
+     * @param buffer
+     * @param root The object that contains the objects of the grid, e.g. the scene.
+     * @param options See {@link ThreeSpatialHashGridOptions}.
+     * @returns
+     */
+    public static fromBinary<T extends THREE.Object3D = THREE.Object3D, V extends Vector = Vector2>(
+        buffer: ArrayBuffer,
+        root: THREE.Object3D,
+        options?: ThreeSpatialHashGridOptions,
+    ): ThreeSpatialHashGrid<T, V>;
+    /**
+     * Restore a grid serialized by {@link SpatialHashGrid.toBinary},
+     * looking up the object of each client with a function. See {@link ThreeSpatialHashGrid.fromJSON}.
+     * @param buffer
+     * @param deserialize Get the object of a client from its identifier. Return `undefined` to skip the client.
+     * @param options See {@link ThreeSpatialHashGridOptions}.
+     */
+    public static fromBinary<T extends THREE.Object3D = THREE.Object3D, V extends Vector = Vector2>(
+        buffer: ArrayBuffer,
+        deserialize: (client: ClientJSON) => T | undefined,
+        options?: ThreeSpatialHashGridOptions,
+    ): ThreeSpatialHashGrid<T, V>;
+    public static fromBinary<T extends THREE.Object3D = THREE.Object3D, V extends Vector = Vector2>(
+        buffer: ArrayBuffer,
+        rootOrDeserialize: THREE.Object3D | ((client: ClientJSON) => T | undefined),
+        options?: ThreeSpatialHashGridOptions,
+    ): ThreeSpatialHashGrid<T, V> {
+        return ThreeSpatialHashGrid.create<T, V>(decodeGrid(buffer), rootOrDeserialize, options);
+    }
+
+    /**
+     * Serialize the grid. Each client stores the identifier of its object,
+     * see {@link ThreeSpatialHashGridOptions.identifier}.
+     * Static objects stay static when the grid is restored.
+     * @returns
+     */
+    public toJSON(): SpatialHashGridJSON {
+        const json = super.toJSON();
+        const statics: unknown[] = [];
+        this.objects.forEach((tracked, object) => {
+            if (tracked.static) statics.push(this.getIdentifier(object));
+        });
+        json.extensions = { static: statics };
+        // Infinity is not valid JSON, i.e. the height is only stored once there are clients.
+        const [min, max] = this.height;
+        if (min <= max) json.extensions.height = [min, max];
+        return json;
+    }
+
+    /**
+     * Get the identifier of the object of a client.
+     * @param client
+     * @returns
+     */
+    protected serializeData(client: Client<T, V>): unknown {
+        const id = this.getIdentifier(client.data);
+        if (id === undefined) {
+            throw new Error(`Object "${client.data.name}" has no userData.${this.identifier}.`);
+        }
+        return id;
+    }
+
+    /**
+     * Get the identifier of an object, see {@link ThreeSpatialHashGridOptions.identifier}.
+     * @param object
+     * @returns `undefined` if the object has none.
+     */
+    private getIdentifier(object: THREE.Object3D): unknown {
+        const { identifier } = this;
+        return identifier === 'uuid' ? object.uuid : object.userData[identifier];
+    }
+
+    /**
+     * Create a grid with the config of a serialized grid, and add its clients.
+     * See {@link ThreeSpatialHashGrid.fromJSON}.
+     * @param json
+     * @param rootOrDeserialize
+     * @param options
+     * @returns
+     */
+    private static create<T extends THREE.Object3D, V extends Vector>(
+        json: SpatialHashGridJSON,
+        rootOrDeserialize: THREE.Object3D | ((client: ClientJSON) => T | undefined),
+        options: ThreeSpatialHashGridOptions = {},
+    ): ThreeSpatialHashGrid<T, V> {
+        const { bounds, dimensions, cellSize } = json;
+        const grid =
+            bounds === null || dimensions === null
+                ? new ThreeSpatialHashGrid<T, V>(cellSize as V, options)
+                : new ThreeSpatialHashGrid<T, V>(bounds as Bounds<V>, dimensions as V, options);
+        grid.restore(
+            json,
+            typeof rootOrDeserialize === 'function'
+                ? rootOrDeserialize
+                : grid.createLookup(rootOrDeserialize),
+        );
+        return grid;
+    }
+
+    /**
+     * Find the objects in `root` by their identifier, see {@link ThreeSpatialHashGridOptions.identifier}.
+     * @param root
+     * @returns Get the object of a serialized client.
+     */
+    private createLookup(root: THREE.Object3D): (client: ClientJSON) => T | undefined {
+        const lookup = new Map<unknown, T>();
+        root.traverse((object) => {
+            const id = this.getIdentifier(object);
+            if (id !== undefined && !lookup.has(id)) lookup.set(id, object as T);
+        });
+        return ({ data }) => lookup.get(data);
+    }
+
+    /**
+     * Add the clients of a serialized grid and register their objects.
+     * @param json
+     * @param deserialize Get the object of a client.
+     */
+    private restore(
+        json: SpatialHashGridJSON,
+        deserialize: (client: ClientJSON) => T | undefined,
+    ): void {
+        const clients = this.restoreClients(json, deserialize);
+        const restored = new Map<T, Client<T, V>[]>();
+        for (let i = 0; i < clients.length; i++) {
+            const client = clients[i];
+            const list = restored.get(client.data);
+            if (list === undefined) {
+                restored.set(client.data, [client]);
+            } else {
+                list.push(client);
+            }
+            this.pushClient(client);
+        }
+
+        const { extensions = {} } = json;
+        const statics = new Set(extensions.static as unknown[] | undefined);
+        restored.forEach((list, object) => {
+            // Instances and points are expected in order, see getClient.
+            list.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+            this.register(object, {
+                clients: list,
+                static: statics.has(this.getIdentifier(object)),
+                dirty: false,
+                matrixWorld: null,
+                version: 0,
+            });
+        });
+        const height = extensions.height as [number, number] | undefined;
+        if (height !== undefined) this.height = [height[0], height[1]];
     }
 
     /**
      * Dispose of the grid.
      */
     public dispose() {
+        this.helper?.dispose();
+        this.watchers.clear();
         this.group.clear();
-        for (let i = 0; i < this.clients.length; i++) {
-            const client = this.clients[i];
-            this.remove(client);
-            this.clients.splice(i, 1);
-        }
+        this.clear();
     }
 }
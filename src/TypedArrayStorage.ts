@@ -0,0 +1,244 @@
+import { CellStorage, Client, Vector, Vector2 } from './types';
+
+/**
+ * Marks the end of a list.
+ */
+const NONE = -1;
+
+/**
+ * Initial number of nodes and clients. The arrays double in size when they are full.
+ */
+const CAPACITY = 1024;
+
+/**
+ * Grow a typed array to at least `size` elements. New elements are set to {@link NONE}.
+ * @param array
+ * @param size
+ * @returns The same array if it is large enough.
+ */
+const grow = (array: Int32Array, size: number): Int32Array => {
+    if (array.length >= size) return array;
+    const next = new Int32Array(Math.max(size, array.length * 2)).fill(NONE);
+    next.set(array);
+    return next;
+};
+
+/**
+ * Stores the clients of each cell in a doubly-linked list of integer nodes.
+ *
+ * The nodes live in preallocated typed arrays and are recycled through a free list.
+ * Clients get an integer id, see {@link Cells.id}.
+ * The nodes of a client are chained together, i.e. a client is removed without searching the cells.
+ *
+ * No objects are allocated when clients are inserted, updated or removed,
+ * i.e. no GC spikes when thousands of clients move each frame.
+ */
+export default class TypedArrayStorage<T = unknown, V extends Vector = Vector2>
+    implements CellStorage<T, V, number>
+{
+    /**
+     * The first node of each cell.
+     * Fixed grids store the cells in a flat array.
+     * Infinite grids store the occupied cells in a hash map.
+     */
+    private heads: Int32Array | Map<number, number> = new Map();
+
+    /**
+     * Next node in the same cell.
+     */
+    private nodeNext = new Int32Array(CAPACITY).fill(NONE);
+
+    /**
+     * Previous node in the same cell.
+     */
+    private nodePrev = new Int32Array(CAPACITY).fill(NONE);
+
+    /**
+     * Id of the client of each node.
+     */
+    private nodeClient = new Int32Array(CAPACITY).fill(NONE);
+
+    /**
+     * Next node of the same client.
+     */
+    private nodeSibling = new Int32Array(CAPACITY).fill(NONE);
+
+    /**
+     * First recycled node. The free nodes are chained through {@link TypedArrayStorage.nodeNext}.
+     */
+    private freeNode = NONE;
+
+    /**
+     * Number of nodes that have ever been used.
+     */
+    private nodeCount = 0;
+
+    /**
+     * Lookup from a client id to its client.
+     */
+    private readonly clients: (Client<T, V> | null)[] = [];
+
+    /**
+     * First node of each client.
+     */
+    private clientNodes = new Int32Array(CAPACITY).fill(NONE);
+
+    /**
+     * Recycled client ids.
+     */
+    private readonly freeIds: number[] = [];
+
+    public reset(cellCount: number | null): void {
+        if (cellCount === null) {
+            this.heads = new Map();
+        } else if (this.heads instanceof Int32Array && this.heads.length === cellCount) {
+            this.heads.fill(NONE);
+        } else {
+            this.heads = new Int32Array(cellCount).fill(NONE);
+        }
+        this.freeNode = NONE;
+        this.nodeCount = 0;
+        this.clients.length = 0;
+        this.freeIds.length = 0;
+    }
+
+    public insert(client: Client<T, V>, keys: readonly number[], count: number): void {
+        const id = this.freeIds.length > 0 ? this.freeIds.pop()! : this.clients.length;
+        this.clients[id] = client;
+        this.clientNodes = grow(this.clientNodes, id + 1);
+        client.cells.id = id;
+
+        let previous = NONE;
+        for (let i = 0; i < count; i++) {
+            const node = this.allocate();
+            const key = keys[i];
+            const head = this.getHead(key);
+
+            this.nodeClient[node] = id;
+            this.nodeSibling[node] = NONE;
+            this.nodePrev[node] = NONE;
+            this.nodeNext[node] = head;
+            if (head !== NONE) this.nodePrev[head] = node;
+            this.setHead(key, node);
+
+            if (previous === NONE) {
+                this.clientNodes[id] = node;
+            } else {
+                this.nodeSibling[previous] = node;
+            }
+            previous = node;
+        }
+    }
+
+    public remove(client: Client<T, V>, keys: readonly number[], count: number): void {
+        const { id } = client.cells;
+        if (id === NONE) throw new Error('Client has no id.');
+
+        // The nodes are chained in the same order as they were inserted.
+        let node = this.clientNodes[id];
+        for (let i = 0; i < count; i++) {
+            const next = this.nodeNext[node];
+            const prev = this.nodePrev[node];
+            if (next !== NONE) this.nodePrev[next] = prev;
+            if (prev !== NONE) {
+                this.nodeNext[prev] = next;
+            } else {
+                this.setHead(keys[i], next);
+            }
+
+            const sibling = this.nodeSibling[node];
+            this.release(node);
+            node = sibling;
+        }
+
+        this.clientNodes[id] = NONE;
+        this.clients[id] = null;
+        this.freeIds.push(id);
+        client.cells.id = NONE;
+    }
+
+    public first(key: number): number | null {
+        const head = this.getHead(key);
+        return head === NONE ? null : head;
+    }
+
+    public next(entry: number): number | null {
+        const next = this.nodeNext[entry];
+        return next === NONE ? null : next;
+    }
+
+    public client(entry: number): Client<T, V> {
+        return this.clients[this.nodeClient[entry]]!;
+    }
+
+    public forEachCell(callback: (key: number) => boolean | void): void {
+        const { heads } = this;
+        if (heads instanceof Map) {
+            for (const key of heads.keys()) {
+                if (callback(key)) return;
+            }
+            return;
+        }
+        for (let key = 0; key < heads.length; key++) {
+            if (heads[key] !== NONE && callback(key)) return;
+        }
+    }
+
+    /**
+     * Get the first node of a cell.
+     * @param key
+     * @returns {@link NONE} if the cell is empty.
+     */
+    private getHead(key: number): number {
+        const { heads } = this;
+        return heads instanceof Map ? heads.get(key) ?? NONE : heads[key];
+    }
+
+    /**
+     * Set the first node of a cell.
+     * Empty cells of an infinite grid are freed.
+     * @param key
+     * @param node
+     */
+    private setHead(key: number, node: number): void {
+        const { heads } = this;
+        if (!(heads instanceof Map)) {
+            heads[key] = node;
+        } else if (node !== NONE) {
+            heads.set(key, node);
+        } else {
+            heads.delete(key);
+        }
+    }
+
+    /**
+     * Get an unused node. Recycled nodes are used first.
+     * @returns
+     */
+    private allocate(): number {
+        const node = this.freeNode;
+        if (node !== NONE) {
+            this.freeNode = this.nodeNext[node];
+            return node;
+        }
+        const size = ++this.nodeCount;
+        if (size > this.nodeNext.length) {
+            this.nodeNext = grow(this.nodeNext, size);
+            this.nodePrev = grow(this.nodePrev, size);
+            this.nodeClient = grow(this.nodeClient, size);
+            this.nodeSibling = grow(this.nodeSibling, size);
+        }
+        return size - 1;
+    }
+
+    /**
+     * Put a node on the free list.
+     * @param node
+     */
+    private release(node: number): void {
+        this.nodeNext[node] = this.freeNode;
+        this.nodePrev[node] = NONE;
+        this.nodeClient[node] = NONE;
+        this.freeNode = node;
+    }
+}
@@ -0,0 +1,420 @@
+import {
+    BatchQueryResult,
+    Bounds,
+    Dimensions,
+    Vector,
+    Vector2,
+    WorkerEndpoint,
+    WorkerMessage,
+    WorkerRequest,
+    WorkerResponse,
+    WorkerResult,
+    WorkerResults,
+    WorkerSpatialHashGridOptions,
+} from './types';
+
+/**
+ * Default number of clients.
+ */
+const CAPACITY = 1024;
+
+/**
+ * `Omit` for each member of a union.
+ */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * The part of a `worker_threads` `Worker` or `MessagePort` used by {@link nodeEndpoint}.
+ */
+interface NodePort {
+    postMessage(message: WorkerMessage, transfer?: readonly Transferable[]): void;
+    on(type: 'message', listener: (data: WorkerMessage) => void): void;
+    off(type: 'message', listener: (data: WorkerMessage) => void): void;
+}
+
+/**
+ * Wrap a `worker_threads` `Worker` or `parentPort` as a {@link WorkerEndpoint}.
+ *
+ * ```ts
+ * // main.ts
+ * const grid = new WorkerSpatialHashGrid(nodeEndpoint(new Worker('./worker.js')), bounds, dimensions);
+ * // worker.js
+ * new SpatialHashGridWorker(nodeEndpoint(parentPort));
+ * ```
+ * @param port
+ * @returns
+ */
+export const nodeEndpoint = (port: NodePort): WorkerEndpoint => {
+    const listeners = new Map<
+        (event: { data: WorkerMessage }) => void,
+        (data: WorkerMessage) => void
+    >();
+    return {
+        postMessage: (message, transfer) => port.postMessage(message, transfer),
+        addEventListener: (_, listener) => {
+            const wrapped = (data: WorkerMessage) => listener({ data });
+            listeners.set(listener, wrapped);
+            port.on('message', wrapped);
+        },
+        removeEventListener: (_, listener) => {
+            const wrapped = listeners.get(listener);
+            if (wrapped === undefined) return;
+            listeners.delete(listener);
+            port.off('message', wrapped);
+        },
+    };
+};
+
+/**
+ * A {@link SpatialHashGrid} that lives in a worker, see {@link SpatialHashGridWorker}.
+ * Rebuilding and querying the grid does not block the main thread.
+ *
+ * Clients are identified by an integer id.
+ * Their positions and extents are written to a `SharedArrayBuffer`, if available,
+ * and only the ids of the changed clients are sent to the worker.
+ *
+ * Messages are handled in order, i.e. a query sees every change that was made before it.
+ */
+export default class WorkerSpatialHashGrid<V extends Vector = Vector2> {
+    private readonly endpoint: WorkerEndpoint;
+
+    /**
+     * Number of axes of the grid.
+     */
+    private readonly axes: number;
+
+    /**
+     * Share the values with the worker. See {@link WorkerSpatialHashGridOptions.shared}.
+     */
+    private readonly shared: boolean;
+
+    /**
+     * Position and extent of each client, indexed by id.
+     */
+    private values: Float64Array;
+
+    /**
+     * Next id that has never been used.
+     */
+    private nextId = 0;
+
+    /**
+     * Ids of removed clients, reused by new clients.
+     */
+    private readonly freeIds: number[] = [];
+
+    /**
+     * Ids of the clients changed by {@link WorkerSpatialHashGrid.setClient}.
+     */
+    private readonly dirty: number[] = [];
+
+    /**
+     * `1` if a client is in {@link WorkerSpatialHashGrid.dirty}.
+     */
+    private dirtyFlags: Uint8Array;
+
+    private requests = 0;
+
+    /**
+     * Id of the request that created the grid in the worker.
+     */
+    private readonly initRequest: number;
+
+    /**
+     * The error of the worker if it could not create the grid.
+     * Every later request is rejected with it.
+     */
+    private initError: Error | null = null;
+
+    /**
+     * Callbacks of the requests that have not been answered yet.
+     */
+    private readonly pending = new Map<
+        number,
+        { resolve: (result: WorkerResult | undefined) => void; reject: (error: Error) => void }
+    >();
+
+    /**
+     * Create a fixed sized grid in a worker.
+     * @param endpoint The worker, see {@link SpatialHashGridWorker}. Use {@link nodeEndpoint} for `worker_threads`.
+     * @param bounds The min/max the grid will operate on.
+     * @param dimensions How **many** cells along each dimensional axis.
+     * @param options See {@link WorkerSpatialHashGridOptions}.
+     */
+    constructor(
+        endpoint: WorkerEndpoint,
+        bounds: Bounds<V>,
+        dimensions: Dimensions<V>,
+        options?: WorkerSpatialHashGridOptions,
+    );
+    /**
+     * Create an infinite grid in a worker.
+     * @param endpoint The worker, see {@link SpatialHashGridWorker}. Use {@link nodeEndpoint} for `worker_threads`.
+     * @param cellSize The size of a single cell along each dimensional axis.
+     * @param options See {@link WorkerSpatialHashGridOptions}.
+     */
+    constructor(endpoint: WorkerEndpoint, cellSize: V, options?: WorkerSpatialHashGridOptions);
+    constructor(
+        endpoint: WorkerEndpoint,
+        boundsOrCellSize: Bounds<V> | V,
+        dimensionsOrOptions?: Dimensions<V> | WorkerSpatialHashGridOptions,
+        options: WorkerSpatialHashGridOptions = {},
+    ) {
+        const infinite = !Array.isArray(boundsOrCellSize[0]);
+        if (infinite) options = (dimensionsOrOptions as WorkerSpatialHashGridOptions) ?? {};
+        const dimensions = infinite ? null : (dimensionsOrOptions as Dimensions<V>);
+        // The worker would fail to create the grid, so fail here where the caller can catch it.
+        if (
+            dimensions !== null &&
+            (boundsOrCellSize as Bounds<V>).some((corner) => corner.length !== dimensions.length)
+        ) {
+            throw new Error('Bounds and dimensions must have the same number of axes.');
+        }
+        const { capacity = CAPACITY, shared = true, ...gridOptions } = options;
+
+        this.endpoint = endpoint;
+        this.axes = dimensions === null ? boundsOrCellSize.length : dimensions.length;
+        this.shared = shared && typeof SharedArrayBuffer !== 'undefined';
+        this.values = this.createValues(capacity);
+        this.dirtyFlags = new Uint8Array(capacity);
+
+        endpoint.addEventListener('message', this.onMessage);
+        // Nothing waits for the grid to be created. A failure rejects the later requests instead.
+        this.initRequest = this.post({
+            type: 'init',
+            boundsOrCellSize,
+            dimensions,
+            options: gridOptions,
+            buffer: this.shared ? (this.values.buffer as SharedArrayBuffer) : null,
+        });
+    }
+
+    /**
+     * Create a buffer for the values of `capacity` clients.
+     * @param capacity
+     * @returns
+     */
+    private createValues(capacity: number): Float64Array {
+        const length = capacity * this.axes * 2;
+        return this.shared
+            ? new Float64Array(new SharedArrayBuffer(length * Float64Array.BYTES_PER_ELEMENT))
+            : new Float64Array(length);
+    }
+
+    /**
+     * Add a client to the grid.
+     * @param position Center of the client.
+     * @param dimensions Size of the client.
+     * @returns The id of the client, once the worker has added it.
+     */
+    public newClient(position: V, dimensions: Dimensions<V>): Promise<number> {
+        const id = this.freeIds.length > 0 ? this.freeIds.pop()! : this.nextId++;
+        this.reserve(id + 1);
+        this.writeClient(id, position, dimensions);
+        return this.sendClients('insert', [id]).then(() => id);
+    }
+
+    /**
+     * Move a client.
+     * @param id
+     * @param position New center of the client.
+     * @param dimensions New size of the client. Keeps the current size if omitted.
+     * @returns `true` if the client was moved to other cells.
+     */
+    public updateClient(id: number, position: V, dimensions?: Dimensions<V>): Promise<boolean> {
+        this.writeClient(id, position, dimensions);
+        return this.sendClients('update', [id]).then((rebucketed: number) => rebucketed > 0);
+    }
+
+    /**
+     * Move a client without messaging the worker.
+     * The change is sent with the other changed clients on the next {@link WorkerSpatialHashGrid.flush}.
+     * @param id
+     * @param position New center of the client.
+     * @param dimensions New size of the client. Keeps the current size if omitted.
+     */
+    public setClient(id: number, position: V, dimensions?: Dimensions<V>): void {
+        this.writeClient(id, position, dimensions);
+        if (this.dirtyFlags[id] === 1) return;
+        this.dirtyFlags[id] = 1;
+        this.dirty.push(id);
+    }
+
+    /**
+     * Send the clients changed by {@link WorkerSpatialHashGrid.setClient} to the worker in one message.
+     * @returns Number of clients that were moved to other cells.
+     */
+    public flush(): Promise<number> {
+        const { dirty, dirtyFlags } = this;
+        if (dirty.length === 0) return Promise.resolve(0);
+        for (const id of dirty) dirtyFlags[id] = 0;
+        const ids = dirty.splice(0, dirty.length);
+        return this.sendClients('update', ids);
+    }
+
+    /**
+     * Remove a client from the grid. The id may be reused by a new client.
+     * @param id
+     */
+    public removeClient(id: number): Promise<void> {
+        this.freeIds.push(id);
+        const ids = new Int32Array([id]);
+        return this.send({ type: 'remove', ids }, [ids.buffer]).then(() => undefined);
+    }
+
+    /**
+     * Find clients in the cells touched by a box.
+     * @param position Center of the box.
+     * @param bounds Size of the box.
+     * @returns Ids of the clients.
+     */
+    public findNear(position: V, bounds: V): Promise<number[]> {
+        return this.send({ type: 'findNear', position, bounds });
+    }
+
+    /**
+     * Find clients that overlap a box.
+     * @param position Center of the box.
+     * @param bounds Size of the box.
+     * @returns Ids of the clients.
+     */
+    public findInBox(position: V, bounds: V): Promise<number[]> {
+        return this.send({ type: 'findInBox', position, bounds });
+    }
+
+    /**
+     * Find the clients near each of many positions in one message.
+     * @param positions Flat list of the centers of the boxes, i.e. `[x0, y0, x1, y1, ...]` for a 2D grid.
+     * @param bounds Size of every box, or a flat list with the size of each box.
+     * @param exact Skip the clients that do not overlap the box.
+     * @returns
+     */
+    public findNearBatch(
+        positions: Float32Array,
+        bounds: V | Float32Array,
+        exact = false,
+    ): Promise<BatchQueryResult> {
+        return this.send({ type: 'findNearBatch', positions, bounds, exact });
+    }
+
+    /**
+     * Stop the grid in the worker. Pending requests are rejected.
+     * The worker itself is not terminated.
+     */
+    public dispose(): void {
+        this.post({ type: 'dispose' });
+        this.endpoint.removeEventListener('message', this.onMessage);
+        for (const { reject } of this.pending.values()) reject(new Error('The grid was disposed.'));
+        this.pending.clear();
+    }
+
+    /**
+     * Make room for `count` clients.
+     * The worker is sent the new buffer if the values are shared.
+     * @param count
+     */
+    private reserve(count: number): void {
+        const capacity = this.values.length / (this.axes * 2);
+        if (count <= capacity) return;
+
+        const next = this.createValues(Math.max(count, capacity * 2));
+        next.set(this.values);
+        this.values = next;
+        const dirtyFlags = new Uint8Array(next.length / (this.axes * 2));
+        dirtyFlags.set(this.dirtyFlags);
+        this.dirtyFlags = dirtyFlags;
+        if (this.shared) this.post({ type: 'buffer', buffer: next.buffer as SharedArrayBuffer });
+    }
+
+    /**
+     * Write the position and extent of a client to {@link WorkerSpatialHashGrid.values}.
+     * @param id
+     * @param position
+     * @param dimensions
+     */
+    private writeClient(id: number, position: V, dimensions?: Dimensions<V>): void {
+        const { axes, values } = this;
+        const offset = id * axes * 2;
+        if (offset >= values.length) throw new Error(`Unknown client ${id}.`);
+        values.set(position, offset);
+        if (dimensions) values.set(dimensions, offset + axes);
+    }
+
+    /**
+     * Send clients to the worker.
+     * The values are copied into a transferred buffer if they are not shared.
+     * @param type
+     * @param ids
+     * @returns The result of the worker.
+     */
+    private sendClients(type: 'insert' | 'update', ids: number[]): Promise<number> {
+        const { axes } = this;
+        const stride = axes * 2;
+        const packed = new Int32Array(ids);
+        if (this.shared) {
+            return this.send({ type, ids: packed, values: null }, [packed.buffer]);
+        }
+
+        const values = new Float64Array(ids.length * stride);
+        for (let i = 0; i < ids.length; i++) {
+            values.set(this.values.subarray(ids[i] * stride, (ids[i] + 1) * stride), i * stride);
+        }
+        return this.send({ type, ids: packed, values }, [packed.buffer, values.buffer]);
+    }
+
+    /**
+     * Post a request to the worker.
+     * @param message
+     * @param transfer
+     * @returns The result of the worker.
+     */
+    private send<M extends DistributiveOmit<WorkerRequest, 'request'>>(
+        message: M,
+        transfer: Transferable[] = [],
+    ): Promise<WorkerResults[M['type']]> {
+        if (this.initError !== null) return Promise.reject(this.initError);
+        return new Promise((resolve, reject) => {
+            // The worker replies with the result of the same type of request.
+            const settle = (result: WorkerResult | undefined) =>
+                resolve(result as WorkerResults[M['type']]);
+            const request = this.post(message, transfer);
+            this.pending.set(request, { resolve: settle, reject });
+        });
+    }
+
+    /**
+     * Post a request to the worker without waiting for the reply.
+     * @param message
+     * @param transfer
+     * @returns The id of the request.
+     */
+    private post(
+        message: DistributiveOmit<WorkerRequest, 'request'>,
+        transfer: Transferable[] = [],
+    ): number {
+        const request = this.requests++;
+        this.endpoint.postMessage({ ...message, request } as WorkerRequest, transfer);
+        return request;
+    }
+
+    /**
+     * Settle the promise of a request.
+     */
+    private onMessage = ({ data }: { data: WorkerMessage }): void => {
+        // Ignore requests, e.g. if the endpoint also receives its own messages.
+        if ('type' in data) return;
+        const { request, result, error }: WorkerResponse = data;
+        if (request === this.initRequest && error !== undefined) {
+            this.initError = new Error(error);
+        }
+        const pending = this.pending.get(request);
+        if (pending === undefined) return;
+        this.pending.delete(request);
+        if (error !== undefined) {
+            // The requests sent before the grid failed to be created fail with the same error.
+            pending.reject(this.initError ?? new Error(error));
+        } else {
+            pending.resolve(result);
+        }
+    };
+}
@@ -1,7 +1,22 @@
 import { default as ThreeSpatialHashGrid } from './ThreeSpatialHashGrid';
 import { default as SpatialHashGrid } from './SpatialHashGrid';
+import { default as HierarchicalSpatialHashGrid } from './HierarchicalSpatialHashGrid';
+import { default as WorkerSpatialHashGrid, nodeEndpoint } from './WorkerSpatialHashGrid';
+import { default as SpatialHashGridWorker } from './SpatialHashGridWorker';
+import { default as ProximityWatcher } from './ProximityWatcher';
+import { default as SpatialHashGridHelper } from './SpatialHashGridHelper';
 
 export default ThreeSpatialHashGrid;
-export { ThreeSpatialHashGrid, SpatialHashGrid };
+export {
+    ThreeSpatialHashGrid,
+    SpatialHashGrid,
+    HierarchicalSpatialHashGrid,
+    WorkerSpatialHashGrid,
+    SpatialHashGridWorker,
+    nodeEndpoint,
+    ProximityWatcher,
+    SpatialHashGridHelper,
+};
 export { GridHelper } from './GridHelper';
+export { encodeGrid, decodeGrid } from './serialization';
 export * from './types';
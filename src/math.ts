@@ -45,6 +45,41 @@ class _Math {
     sat(x: number): number {
         return Math.min(Math.max(x, 0.0), 1.0);
     }
+
+    /**
+     * Check if two axis-aligned boxes overlap.
+     * Each box is defined by its center and size. Touching boxes overlap.
+     */
+    boxIntersectsBox(
+        positionA: readonly number[],
+        dimensionsA: readonly number[],
+        positionB: readonly number[],
+        dimensionsB: readonly number[],
+    ): boolean {
+        for (let i = 0; i < positionA.length; i++) {
+            if (Math.abs(positionA[i] - positionB[i]) * 2 > dimensionsA[i] + dimensionsB[i]) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Squared distance from a point to an axis-aligned box.
+     * The box is defined by its center and size. Points inside the box have a distance of `0`.
+     */
+    distanceToBoxSquared(
+        point: readonly number[],
+        position: readonly number[],
+        dimensions: readonly number[],
+    ): number {
+        let distance = 0;
+        for (let i = 0; i < point.length; i++) {
+            const d = Math.max(Math.abs(point[i] - position[i]) - dimensions[i] / 2, 0);
+            distance += d * d;
+        }
+        return distance;
+    }
 }
 
 const math = _Math.Instance;
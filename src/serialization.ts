@@ -0,0 +1,139 @@
+import { ClientJSON, SpatialHashGridJSON } from './types';
+
+/**
+ * Version of {@link SpatialHashGridJSON} and of the binary format.
+ */
+export const SERIALIZATION_VERSION = 1;
+
+/**
+ * `SHG1` in ASCII, marks the start of a binary grid.
+ */
+const MAGIC = 0x53484731;
+
+/**
+ * Bytes of the header: magic, version, axes, flags, client count and payload length.
+ */
+const HEADER_SIZE = 16;
+
+/**
+ * Set in the flags of an infinite grid.
+ */
+const INFINITE = 1;
+
+/**
+ * Check that a serialized grid can be read by this version.
+ * @param version
+ */
+export const checkVersion = (version: number): void => {
+    if (version !== SERIALIZATION_VERSION) {
+        throw new Error(`Unsupported grid version ${version}.`);
+    }
+};
+
+/**
+ * Encode a serialized grid into a compact binary format.
+ *
+ * The numbers are stored as little-endian `Float64`, i.e. positions and extents are restored exactly.
+ * The payloads of the clients and the extensions are appended as UTF-8 encoded JSON.
+ * @param json See {@link SpatialHashGrid.toJSON}.
+ * @returns
+ */
+export const encodeGrid = (json: SpatialHashGridJSON): ArrayBuffer => {
+    const { bounds, dimensions, cellSize, clients } = json;
+    const axes = cellSize.length;
+    const payload = new TextEncoder().encode(
+        JSON.stringify({ data: clients.map((client) => client.data), extensions: json.extensions }),
+    );
+
+    // Cell size, then bounds and dimensions of fixed grids.
+    const configSize = (dimensions === null ? axes : axes * 4) * 8;
+    // Position and extent, then layers, mask and index.
+    const clientSize = axes * 2 * 8 + 12;
+    const buffer = new ArrayBuffer(
+        HEADER_SIZE + configSize + clients.length * clientSize + payload.length,
+    );
+    const view = new DataView(buffer);
+
+    view.setUint32(0, MAGIC, true);
+    view.setUint8(4, json.version);
+    view.setUint8(5, axes);
+    view.setUint8(6, dimensions === null ? INFINITE : 0);
+    view.setUint32(8, clients.length, true);
+    view.setUint32(12, payload.length, true);
+
+    let offset = HEADER_SIZE;
+    const write = (values: readonly number[]) => {
+        for (let i = 0; i < axes; i++, offset += 8) view.setFloat64(offset, values[i], true);
+    };
+    write(cellSize);
+    if (bounds !== null && dimensions !== null) {
+        write(bounds[0]);
+        write(bounds[1]);
+        write(dimensions);
+    }
+    for (let i = 0; i < clients.length; i++) {
+        const client = clients[i];
+        write(client.position);
+        write(client.dimensions);
+        view.setUint32(offset, client.layers, true);
+        view.setUint32(offset + 4, client.mask, true);
+        view.setInt32(offset + 8, client.index ?? -1, true);
+        offset += 12;
+    }
+    new Uint8Array(buffer, offset).set(payload);
+    return buffer;
+};
+
+/**
+ * Decode a grid encoded by {@link encodeGrid}.
+ * @param buffer
+ * @returns
+ */
+export const decodeGrid = (buffer: ArrayBuffer): SpatialHashGridJSON => {
+    const view = new DataView(buffer);
+    if (buffer.byteLength < HEADER_SIZE || view.getUint32(0, true) !== MAGIC) {
+        throw new Error('The buffer does not contain a grid.');
+    }
+    const version = view.getUint8(4);
+    checkVersion(version);
+    const axes = view.getUint8(5);
+    const infinite = (view.getUint8(6) & INFINITE) !== 0;
+    const count = view.getUint32(8, true);
+    const payloadLength = view.getUint32(12, true);
+
+    let offset = HEADER_SIZE;
+    const read = () => {
+        const values: number[] = [];
+        for (let i = 0; i < axes; i++, offset += 8) values.push(view.getFloat64(offset, true));
+        return values;
+    };
+    const cellSize = read();
+    const bounds: [number[], number[]] | null = infinite ? null : [read(), read()];
+    const dimensions = infinite ? null : read();
+
+    const clients: ClientJSON[] = [];
+    for (let i = 0; i < count; i++) {
+        const position = read();
+        const size = read();
+        const client: ClientJSON = {
+            position,
+            dimensions: size,
+            layers: view.getUint32(offset, true),
+            mask: view.getUint32(offset + 4, true),
+            data: null,
+        };
+        const index = view.getInt32(offset + 8, true);
+        if (index !== -1) client.index = index;
+        clients.push(client);
+        offset += 12;
+    }
+
+    const { data, extensions } = JSON.parse(
+        new TextDecoder().decode(new Uint8Array(buffer, offset, payloadLength)),
+    );
+    for (let i = 0; i < count; i++) clients[i].data = data[i];
+
+    const json: SpatialHashGridJSON = { version, bounds, dimensions, cellSize, clients };
+    if (extensions !== undefined) json.extensions = extensions;
+    return json;
+};
@@ -1,6 +1,12 @@
 import * as THREE from 'three';
 
+/**
+ * An object in a {@link ThreeSpatialHashGrid}.
+ */
 export interface SpatialObject extends THREE.Object3D {
+    /**
+     * World space bounding box of the object. Updated by the grid.
+     */
     _boundingBox?: THREE.Box3;
 }
 
@@ -14,47 +20,815 @@ export interface SpatialObject extends THREE.Object3D {
 export type Vector2 = [number, number];
 
 /**
- * See {@link Vector2}
+ * A Vector3 represented as an array of three numbers.
+ *
+ * ```ts
+ * [x, y, z] = foo
+ * ```
+ */
+export type Vector3 = [number, number, number];
+
+/**
+ * Either a {@link Vector2} (2D grid) or a {@link Vector3} (3D grid).
  */
-export type Dimensions = Vector2;
+export type Vector = Vector2 | Vector3;
 
 /**
+ * See {@link Vector2} and {@link Vector3}
+ */
+export type Dimensions<V extends Vector = Vector2> = V;
+
+/**
+ * The `min` and `max` corners of the grid.
+ */
+export type Bounds<V extends Vector = Vector2> = [V, V];
+
+/**
+ * Cell Index.
  *
+ * Always three components. For 2D grids the third component is `0`.
  */
-export type Bounds = [Vector2, Vector2];
+export type CellIndex = Vector3;
 
 /**
- * Cell Index
+ * The plane a 2D grid is projected onto.
+ *
+ * - `xz`: +Y is up. This is the default.
+ * - `xy`: +Z is up. Useful for CAD/BIM scenes.
+ * - `yz`: +X is up.
  */
-export type CellIndex = Vector2;
+export type Plane = 'xz' | 'xy' | 'yz';
 
 /**
  *
  */
-export type Client = {
-    position: Vector2;
-    dimensions: Dimensions;
-    cells: Cells;
+export type Client<T = unknown, V extends Vector = Vector2> = {
+    position: V;
+    dimensions: Dimensions<V>;
+    /**
+     * Bitmask of the layers the client is a member of.
+     * Mirrors `THREE.Layers.mask`, i.e. layer `0` is enabled by default.
+     */
+    layers: number;
+    /**
+     * Bitmask of the layers the client collides with.
+     * See {@link SpatialHashGrid.forEachPotentialPair}.
+     */
+    mask: number;
+    cells: Cells<T, V>;
     _queryId: number;
-    metadata: { [key: string]: string };
+    /**
+     * User payload, e.g. the `THREE.Object3D` the client represents.
+     */
+    data: T;
+    /**
+     * Index of the part of the payload the client represents, if any.
+     * E.g. the instance of a `THREE.InstancedMesh` or the point of a `THREE.Points`.
+     */
+    index?: number;
 };
+/**
+ * Filter the clients of a query.
+ * The filter is applied inside of the cell loop, i.e. no intermediate arrays are allocated.
+ */
+export type QueryFilter<T = unknown, V extends Vector = Vector2> = {
+    /**
+     * Only include clients that are a member of at least one of these layers.
+     */
+    mask?: number;
+    /**
+     * Only include clients for which this returns `true`.
+     */
+    predicate?: (client: Client<T, V>) => boolean;
+};
+
+/**
+ * Two clients that (might) collide.
+ */
+export type ClientPair<T = unknown, V extends Vector = Vector2> = [Client<T, V>, Client<T, V>];
+
+/**
+ * A client found by a nearest neighbour search.
+ */
+export type NearestClient<T = unknown, V extends Vector = Vector2> = {
+    client: Client<T, V>;
+    /**
+     * Distance to the extent of the client.
+     */
+    distance: number;
+};
+
+/**
+ * An object found by a nearest neighbour search.
+ */
+export type NearestObject<T extends THREE.Object3D = THREE.Object3D> = {
+    object: T;
+    /**
+     * Distance to the extent of the object.
+     */
+    distance: number;
+    /**
+     * The instance that was found, if the object is a `THREE.InstancedMesh`.
+     */
+    instanceId?: number;
+    /**
+     * The point that was found, if the points of the object are registered one by one.
+     */
+    index?: number;
+};
+
+/**
+ * Reusable output of a batch query, see {@link SpatialHashGrid.findNearBatch}.
+ * The clients of query `i` are `clients[offsets[i]]` to `clients[offsets[i + 1] - 1]`.
+ */
+export interface ClientBatchResult<T = unknown, V extends Vector = Vector2> {
+    /**
+     * The found clients, grouped by query.
+     */
+    clients: Client<T, V>[];
+    /**
+     * Offset of the results of each query into `clients`.
+     * Might be longer than the number of queries plus one, if the output is reused.
+     */
+    offsets: Int32Array;
+}
+
+/**
+ * Reusable output of {@link ThreeSpatialHashGrid.getNearbyObjectsBatch}.
+ * The objects of query `i` are `objects[offsets[i]]` to `objects[offsets[i + 1] - 1]`.
+ */
+export interface ObjectBatchResult<T extends THREE.Object3D = THREE.Object3D> {
+    /**
+     * The found objects, grouped by query.
+     */
+    objects: T[];
+    /**
+     * Offset of the results of each query into `objects`.
+     * Might be longer than the number of queries plus one, if the output is reused.
+     */
+    offsets: Int32Array;
+}
+
+/**
+ * How the clients are distributed over the cells.
+ * See {@link SpatialHashGrid.getOccupancy}.
+ */
+export interface OccupancyStats {
+    /**
+     * Number of clients.
+     */
+    clients: number;
+    /**
+     * Number of cells. Infinite grids count the cells between the outermost occupied cells.
+     */
+    cells: number;
+    /**
+     * Number of cells with at least one client.
+     */
+    occupiedCells: number;
+    /**
+     * Ratio of empty cells, between `0` and `1`.
+     */
+    emptyRatio: number;
+    /**
+     * Mean number of clients in an occupied cell.
+     */
+    meanClientsPerCell: number;
+    /**
+     * Max number of clients in a single cell.
+     */
+    maxClientsPerCell: number;
+    /**
+     * Mean number of cells a client touches.
+     */
+    meanCellsPerClient: number;
+    /**
+     * Max number of cells a single client touches.
+     */
+    maxCellsPerClient: number;
+}
+
+/**
+ * Thresholds of {@link SpatialHashGrid.adapt}.
+ * The grid is rebuilt when any of the thresholds is exceeded.
+ */
+export interface AdaptiveOptions {
+    /**
+     * Max mean number of clients in an occupied cell, i.e. the cells are too large.
+     * @default 8
+     */
+    maxClientsPerCell?: number;
+    /**
+     * Max mean number of cells a client touches, i.e. the cells are too small.
+     * @default 8
+     */
+    maxCellsPerClient?: number;
+    /**
+     * Max ratio of empty cells.
+     * @default 0.95
+     */
+    maxEmptyRatio?: number;
+    /**
+     * See {@link SpatialHashGrid.suggestCellSize}.
+     * @default 4
+     */
+    clientsPerCell?: number;
+    /**
+     * Keep the current cell size if the suggested cell size is within this ratio of it.
+     * @default 0.25
+     */
+    tolerance?: number;
+    /**
+     * Only check the distribution every `interval` updates.
+     * Used by {@link ThreeSpatialHashGrid.update}.
+     * @default 60
+     */
+    interval?: number;
+}
+
 /**
  * Head of the doubly-linked list.
  */
-export interface Head {
-    next: Head | null;
-    prev: Head | null;
-    client: Client;
+export interface Head<T = unknown, V extends Vector = Vector2> {
+    next: Head<T, V> | null;
+    prev: Head<T, V> | null;
+    client: Client<T, V>;
 }
 /**
- * A node from the doubly-linked list.
+ * The nodes from the doubly-linked lists, one per cell the client touches.
  */
-export type Nodes = Head[][];
+export type Nodes<T = unknown, V extends Vector = Vector2> = Head<T, V>[];
 /**
  * Cell with references to the head node and cell indices.
  */
-export interface Cells {
+export interface Cells<T = unknown, V extends Vector = Vector2> {
     min: CellIndex | null;
     max: CellIndex | null;
-    nodes: Nodes | null;
+    /**
+     * The nodes of the client. Only used by the `'linked'` storage.
+     */
+    nodes: Nodes<T, V> | null;
+    /**
+     * Id of the client. Only used by the `'typed'` storage. `-1` if not stored.
+     */
+    id: number;
+}
+
+/**
+ * How the clients are stored in the cells.
+ *
+ * - `linked`: A doubly-linked list of node objects per cell. This is the default.
+ * - `typed`: Doubly-linked lists of integer nodes in preallocated typed arrays.
+ * No objects are allocated when clients are inserted, updated or removed.
+ */
+export type StorageType = 'linked' | 'typed';
+
+/**
+ * Storage of the clients in the cells of a {@link SpatialHashGrid}.
+ *
+ * The clients of a cell are walked with a cursor:
+ *
+ * ```ts
+ * for (let entry = storage.first(key); entry !== null; entry = storage.next(entry)) {
+ *     const client = storage.client(entry);
+ * }
+ * ```
+ *
+ * @typeParam E Type of an entry, i.e. a node in the list of a cell.
+ */
+export interface CellStorage<T = unknown, V extends Vector = Vector2, E = unknown> {
+    /**
+     * Remove every client.
+     * @param cellCount Number of cells of a fixed grid, or `null` for an infinite grid.
+     */
+    reset(cellCount: number | null): void;
+    /**
+     * Add a client to cells.
+     * @param client
+     * @param keys Keys of the cells the client touches.
+     * @param count Number of keys.
+     */
+    insert(client: Client<T, V>, keys: readonly number[], count: number): void;
+    /**
+     * Remove a client from cells.
+     * @param client
+     * @param keys The same keys, in the same order, as the client was inserted with.
+     * @param count Number of keys.
+     */
+    remove(client: Client<T, V>, keys: readonly number[], count: number): void;
+    /**
+     * Get the first entry of a cell.
+     * @param key
+     * @returns `null` if the cell is empty.
+     */
+    first(key: number): E | null;
+    /**
+     * Get the next entry in the same cell.
+     * @param entry
+     * @returns `null` if this is the last entry.
+     */
+    next(entry: E): E | null;
+    /**
+     * Get the client of an entry.
+     * @param entry
+     */
+    client(entry: E): Client<T, V>;
+    /**
+     * Visit each occupied cell.
+     * @param callback Called with the key of the cell. Return `true` to stop.
+     */
+    forEachCell(callback: (key: number) => boolean | void): void;
+}
+
+/**
+ * Runtime statistics of a grid, see {@link SpatialHashGrid.getStats}.
+ * The counters add up until {@link SpatialHashGrid.resetStats} is called, e.g. once per frame.
+ */
+export interface GridStats {
+    /**
+     * Number of new clients.
+     */
+    inserts: number;
+    /**
+     * Number of removed clients.
+     */
+    removes: number;
+    /**
+     * Number of calls of {@link SpatialHashGrid.updateClient}.
+     */
+    updates: number;
+    /**
+     * Number of updates that moved a client to other cells.
+     */
+    rebuckets: number;
+    /**
+     * Number of queries.
+     */
+    queries: number;
+    /**
+     * Number of cells visited by the queries.
+     */
+    cellsVisited: number;
+    /**
+     * Number of clients returned by the queries, or passed to their callbacks.
+     */
+    clientsReturned: number;
+    /**
+     * Time spent in the queries, in milliseconds.
+     */
+    queryTime: number;
+}
+
+/**
+ * The cost of a single query, see {@link SpatialHashGrid.onQuery}.
+ */
+export interface QueryStats {
+    /**
+     * Number of cells visited.
+     */
+    cells: number;
+    /**
+     * Number of clients returned, or passed to the callback.
+     */
+    clients: number;
+    /**
+     * Duration, in milliseconds.
+     */
+    time: number;
 }
+
+/**
+ * Options for the {@link SpatialHashGrid}.
+ */
+export interface SpatialHashGridOptions {
+    /**
+     * How the clients are stored in the cells.
+     * @default 'linked'
+     */
+    storage?: StorageType;
+    /**
+     * Collect {@link GridStats}, see {@link SpatialHashGrid.collectStats}.
+     * @default false
+     */
+    stats?: boolean;
+}
+
+/**
+ * Options for the {@link ThreeSpatialHashGrid}.
+ */
+export interface ThreeSpatialHashGridOptions extends SpatialHashGridOptions {
+    /**
+     * Display debug information in {@link ThreeSpatialHashGrid.group}, see {@link ThreeSpatialHashGrid.helper}.
+     * Pass `true` to only draw the cells.
+     * @default false
+     */
+    debug?: boolean | SpatialHashGridHelperOptions;
+    /**
+     * The plane a 2D grid is projected onto. Ignored for 3D grids.
+     * @default 'xz'
+     */
+    plane?: Plane;
+    /**
+     * Remove objects from the grid when they are removed from their parent,
+     * or when they are disposed (e.g. `THREE.InstancedMesh.dispose`).
+     * Moving an object to another parent keeps it in the grid.
+     * @default true
+     */
+    autoRemove?: boolean;
+    /**
+     * Only re-measure the objects whose world matrix has changed since the last update.
+     * Changes of instance matrices and point positions are detected by their `version`.
+     * Changes of the children of an object are not detected, see {@link ThreeSpatialHashGrid.markDirty}.
+     * @default false
+     */
+    trackChanges?: boolean;
+    /**
+     * Grow the bounds to cover newly added objects. The cell size is kept.
+     * Ignored by infinite grids.
+     * @default false
+     */
+    autoFit?: boolean;
+    /**
+     * Rebuild the grid with a better cell size when the clients are badly distributed.
+     * Checked by {@link ThreeSpatialHashGrid.update}. Pass `true` for the default thresholds.
+     * @default false
+     */
+    adaptive?: boolean | AdaptiveOptions;
+    /**
+     * How objects are identified in a serialized grid, see {@link ThreeSpatialHashGrid.fromJSON}.
+     * Either `'uuid'`, or the name of a `userData` property, e.g. `'id'` for `object.userData.id`.
+     * @default 'uuid'
+     */
+    identifier?: string;
+}
+
+/**
+ * Options for the {@link GridHelper}.
+ */
+export interface GridHelperOptions {
+    /**
+     * Spacing between the lines along the first axis of the plane.
+     * @default 1
+     */
+    spacingX?: number;
+    /**
+     * Spacing between the lines along the second axis of the plane.
+     * @default spacingX
+     */
+    spacingY?: number;
+    /**
+     * Draw every n-th line, counted from the min edge, as a major line. `0` for no major lines.
+     * @default 0
+     */
+    majorInterval?: number;
+    /**
+     * Color of the minor lines.
+     * @default 0x888888
+     */
+    color?: THREE.ColorRepresentation;
+    /**
+     * Color of the major lines.
+     * @default 0xdddddd
+     */
+    majorColor?: THREE.ColorRepresentation;
+    /**
+     * Draw the two lines through the center of the grid, colored like the axes of a `THREE.AxesHelper`.
+     * @default false
+     */
+    centerLines?: boolean;
+    /**
+     * The plane of the grid.
+     * @default 'xz'
+     */
+    plane?: Plane;
+    /**
+     * Center the grid on the origin of the helper.
+     * If `false`, the grid starts at the origin, i.e. the origin is the min corner.
+     * @default true
+     */
+    centered?: boolean;
+    /**
+     * Offset along the normal of the plane, e.g. to avoid z-fighting with the ground.
+     * @default 0
+     */
+    elevation?: number;
+    /**
+     * Write the index of each cell into it. Needs a canvas, i.e. a DOM or `OffscreenCanvas`.
+     * @default false
+     */
+    labels?: boolean;
+}
+
+/**
+ * Options for the {@link SpatialHashGridHelper}.
+ */
+export interface SpatialHashGridHelperOptions {
+    /**
+     * Draw the lines of the cells.
+     * @default true
+     */
+    lines?: boolean;
+    /**
+     * Fill the occupied cells, colored by their number of clients.
+     * @default false
+     */
+    heatmap?: boolean;
+    /**
+     * Outline the cells touched by the last query, see {@link SpatialHashGrid.traceQueries}.
+     * @default false
+     */
+    queries?: boolean;
+    /**
+     * Outline the box of each client.
+     * @default false
+     */
+    clients?: boolean;
+}
+
+/**
+ * Options for {@link ThreeSpatialHashGrid.add}.
+ */
+export interface AddOptions {
+    /**
+     * Register each instance of a `THREE.InstancedMesh` as its own client.
+     * @default true
+     */
+    instances?: boolean;
+    /**
+     * Register each point of a `THREE.Points` as its own client.
+     * Useful for large point clouds.
+     * @default false
+     */
+    points?: boolean;
+    /**
+     * The object never moves. It is skipped by {@link ThreeSpatialHashGrid.update},
+     * unless it is marked as dirty. See {@link ThreeSpatialHashGrid.markDirty}.
+     * @default false
+     */
+    static?: boolean;
+}
+
+/**
+ * Options for {@link ThreeSpatialHashGrid.queryFrustum}.
+ */
+export interface FrustumQueryOptions<
+    T extends THREE.Object3D = THREE.Object3D,
+    V extends Vector = Vector2,
+> {
+    /**
+     * Test the bounding box of each object against the frustum.
+     * If `false`, return every object in the cells that intersect the frustum.
+     * @default true
+     */
+    exact?: boolean;
+    /**
+     * Show the objects that were found and hide every other object in the grid that passes the filter.
+     * Objects excluded by the filter keep their visibility.
+     * Instances and points are not culled one by one.
+     * @default false
+     */
+    cull?: boolean;
+    /**
+     * Only include clients in these layers, or that pass the filter.
+     */
+    filter?: THREE.Layers | QueryFilter<T, V>;
+}
+
+/**
+ * Event of a {@link ProximityWatcher}.
+ *
+ * - `enter`: The object started to overlap the region.
+ * - `exit`: The object stopped overlapping the region, or was removed from the grid.
+ * - `stay`: The object still overlaps the region. Dispatched on every update.
+ */
+export interface ProximityEvent<T extends THREE.Object3D = THREE.Object3D> {
+    type: 'enter' | 'exit' | 'stay';
+    object: T;
+}
+
+/**
+ * Options for {@link ThreeSpatialHashGrid.watch}.
+ */
+export interface WatchOptions<
+    T extends THREE.Object3D = THREE.Object3D,
+    V extends Vector = Vector2,
+> {
+    /**
+     * Grow the region by this distance, e.g. to watch the surroundings of an object.
+     * @default 0
+     */
+    margin?: number;
+    /**
+     * Test the extent of each object against the region.
+     * If `false`, every object in the cells that the region touches overlaps it.
+     * @default true
+     */
+    exact?: boolean;
+    /**
+     * Only include clients in these layers, or that pass the filter.
+     */
+    filter?: THREE.Layers | QueryFilter<T, V>;
+}
+
+/**
+ * An object in a {@link ThreeSpatialHashGrid} and its clients.
+ */
+export interface TrackedObject<T = unknown, V extends Vector = Vector2> {
+    /**
+     * One client, or one per instance/point.
+     */
+    clients: Client<T, V>[];
+    /**
+     * See {@link AddOptions.static}.
+     */
+    static: boolean;
+    /**
+     * Re-measure the object on the next update.
+     */
+    dirty: boolean;
+    /**
+     * World matrix of the object when it was last measured.
+     * Only used when tracking changes, see {@link ThreeSpatialHashGridOptions.trackChanges}.
+     */
+    matrixWorld: THREE.Matrix4 | null;
+    /**
+     * Version of the instance matrices or point positions when they were last measured.
+     */
+    version: number;
+}
+
+/**
+ * A client of a {@link SpatialHashGridJSON}.
+ */
+export interface ClientJSON {
+    position: number[];
+    dimensions: number[];
+    layers: number;
+    mask: number;
+    /**
+     * The payload of the client, see {@link SpatialHashGrid.serializeData}.
+     */
+    data: unknown;
+    index?: number;
+}
+
+/**
+ * A serialized grid, see {@link SpatialHashGrid.toJSON}.
+ * Use {@link encodeGrid} and {@link decodeGrid} for the binary format.
+ */
+export interface SpatialHashGridJSON {
+    version: number;
+    /**
+     * `null` for infinite grids.
+     */
+    bounds: [number[], number[]] | null;
+    /**
+     * `null` for infinite grids.
+     */
+    dimensions: number[] | null;
+    cellSize: number[];
+    clients: ClientJSON[];
+    /**
+     * Extra state of a subclass, e.g. of a {@link ThreeSpatialHashGrid}. Must be JSON compatible.
+     */
+    extensions?: Record<string, unknown>;
+}
+
+/**
+ * Result of {@link ThreeSpatialHashGrid.update}.
+ */
+export interface UpdateStats {
+    /**
+     * Number of objects that were re-measured.
+     */
+    updated: number;
+    /**
+     * Number of clients that were moved to other cells.
+     */
+    rebucketed: number;
+    /**
+     * `true` if the grid was rebuilt with a new cell size.
+     * See {@link ThreeSpatialHashGridOptions.adaptive}.
+     */
+    rebuilt: boolean;
+}
+
+/**
+ * Something messages can be posted to and received from,
+ * e.g. a `Worker` or the global scope of a worker.
+ * See {@link nodeEndpoint} for `worker_threads`.
+ */
+export interface WorkerEndpoint {
+    postMessage(message: WorkerMessage, transfer?: Transferable[]): void;
+    addEventListener(type: 'message', listener: (event: { data: WorkerMessage }) => void): void;
+    removeEventListener(type: 'message', listener: (event: { data: WorkerMessage }) => void): void;
+}
+
+/**
+ * Options for the {@link WorkerSpatialHashGrid}.
+ */
+export interface WorkerSpatialHashGridOptions extends SpatialHashGridOptions {
+    /**
+     * Initial number of clients. The buffers grow when they are full.
+     * @default 1024
+     */
+    capacity?: number;
+    /**
+     * Share the positions and extents with the worker through a `SharedArrayBuffer`.
+     * Otherwise the changed values are copied into a transferable buffer on each update.
+     * Ignored if `SharedArrayBuffer` is not available, e.g. the page is not cross-origin isolated.
+     * @default true
+     */
+    shared?: boolean;
+}
+
+/**
+ * Result of a batch query.
+ * The results of query `i` are `ids[offsets[i]]` to `ids[offsets[i + 1] - 1]`.
+ */
+export interface BatchQueryResult {
+    /**
+     * Ids of the found clients, grouped by query.
+     */
+    ids: Int32Array;
+    /**
+     * Offset of the results of each query into `ids`. One more than the number of queries.
+     */
+    offsets: Int32Array;
+}
+
+/**
+ * Message from a {@link WorkerSpatialHashGrid} to a {@link SpatialHashGridWorker}.
+ * `request` is echoed back in the {@link WorkerResponse}.
+ */
+export type WorkerRequest = { request: number } & (
+    | {
+          type: 'init';
+          boundsOrCellSize: Bounds<Vector> | Vector;
+          dimensions: Dimensions<Vector> | null;
+          options: SpatialHashGridOptions;
+          buffer: SharedArrayBuffer | null;
+      }
+    | { type: 'buffer'; buffer: SharedArrayBuffer }
+    | {
+          type: 'insert' | 'update';
+          ids: Int32Array;
+          /**
+           * The position and extent of each client. `null` if they are shared.
+           */
+          values: Float64Array | null;
+      }
+    | { type: 'remove'; ids: Int32Array }
+    | { type: 'findNear' | 'findInBox'; position: Vector; bounds: Vector }
+    | {
+          type: 'findNearBatch';
+          positions: Float32Array;
+          bounds: Float32Array | Vector;
+          exact: boolean;
+      }
+    | { type: 'dispose' }
+);
+
+/**
+ * The result of each type of {@link WorkerRequest}.
+ */
+export interface WorkerResults {
+    init: null;
+    buffer: null;
+    /**
+     * Number of clients that were moved to other cells. Always `0` for inserts.
+     */
+    insert: number;
+    update: number;
+    remove: null;
+    /**
+     * Ids of the found clients.
+     */
+    findNear: number[];
+    findInBox: number[];
+    findNearBatch: BatchQueryResult;
+    dispose: null;
+}
+
+/**
+ * The result of any {@link WorkerRequest}.
+ */
+export type WorkerResult = WorkerResults[keyof WorkerResults];
+
+/**
+ * Reply of a {@link SpatialHashGridWorker}.
+ */
+export interface WorkerResponse {
+    request: number;
+    result?: WorkerResult;
+    /**
+     * The message of the error, if the request failed.
+     */
+    error?: string;
+}
+
+/**
+ * Any message between a {@link WorkerSpatialHashGrid} and a {@link SpatialHashGridWorker}.
+ * Only requests have a `type`.
+ */
+export type WorkerMessage = WorkerRequest | WorkerResponse;
@@ -8,6 +8,7 @@ export default defineConfig({
         rollupOptions: {
             input: {
                 example: resolve(__dirname, 'example/index.html'),
+                benchmark: resolve(__dirname, 'example/benchmark.html'),
             },
         },
     },